@@ -0,0 +1,71 @@
+-- Academic terms and their days off, so classes stop at the end of the term and skip holidays and breaks
+
+CREATE TABLE IF NOT EXISTS academic_terms (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL, -- e.g. "Fall 2025"
+  start_date DATE NOT NULL, -- First day of classes
+  end_date DATE NOT NULL, -- Last day of classes
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+-- Holidays, breaks and reading days; a single holiday has the same start and end date
+CREATE TABLE IF NOT EXISTS term_breaks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  term_id UUID REFERENCES academic_terms(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL, -- e.g. "Thanksgiving", "Spring Break"
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE academic_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE term_breaks ENABLE ROW LEVEL SECURITY;
+
+-- Policies for academic_terms
+CREATE POLICY "Users can view their own terms"
+  ON academic_terms FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own terms"
+  ON academic_terms FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own terms"
+  ON academic_terms FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own terms"
+  ON academic_terms FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Policies for term_breaks
+CREATE POLICY "Users can view their own term breaks"
+  ON term_breaks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own term breaks"
+  ON term_breaks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own term breaks"
+  ON term_breaks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own term breaks"
+  ON term_breaks FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_academic_terms_updated_at BEFORE UPDATE ON academic_terms
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_academic_terms_user_id ON academic_terms(user_id);
+CREATE INDEX IF NOT EXISTS idx_term_breaks_term_id ON term_breaks(term_id);
+
+-- The term a schedule's classes run in
+ALTER TABLE schedule_tracks ADD COLUMN IF NOT EXISTS term_id UUID REFERENCES academic_terms(id) ON DELETE SET NULL;
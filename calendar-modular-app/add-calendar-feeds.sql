@@ -0,0 +1,30 @@
+-- Subscription links: a secret token URL that serves the user's current schedule as an ICS feed
+-- Revoking a link deletes its row, and the URL stops working on the next refresh
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE, -- Random, URL-safe; anyone with the link can read the schedule
+  name TEXT NOT NULL, -- e.g. "Phone", "Google Calendar"
+  time_zone TEXT NOT NULL, -- IANA zone the classes meet in, e.g. "America/New_York"
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_fetched_at TIMESTAMPTZ -- Last time a calendar app refreshed the feed
+);
+
+-- Enable Row Level Security
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- The feed server reads by token with the service role; users manage their own links
+CREATE POLICY "Users can view their own calendar feeds"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar feeds"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feeds"
+  ON calendar_feeds FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user_id ON calendar_feeds(user_id);
@@ -0,0 +1,15 @@
+-- Registration and exam details for classes
+
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS crn TEXT; -- Course registration number
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS credits NUMERIC(4, 1);
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS meeting_type TEXT
+  CHECK (meeting_type IN ('lecture', 'lab', 'discussion', 'seminar'));
+
+-- First and last day the class meets
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS term_start DATE;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS term_end DATE;
+
+-- Final exam slot
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS final_exam_date DATE;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS final_exam_start TIME;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS final_exam_end TIME;
@@ -0,0 +1,9 @@
+-- Cache extraction results per provider and model, so switching either extracts the PDF again
+
+-- Model the provider called (NULL for the rule-based parser)
+ALTER TABLE extraction_cache ADD COLUMN IF NOT EXISTS model TEXT;
+
+-- One result per user, file, provider and model (a missing provider or model counts as a value)
+ALTER TABLE extraction_cache DROP CONSTRAINT IF EXISTS extraction_cache_pkey;
+ALTER TABLE extraction_cache ADD CONSTRAINT extraction_cache_key
+  UNIQUE NULLS NOT DISTINCT (user_id, file_hash, provider, model);
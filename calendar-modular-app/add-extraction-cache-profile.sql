@@ -0,0 +1,21 @@
+-- Cache extraction results per institution profile, and drop them once the profile changes
+
+-- A PDF extracted with two profiles keeps both results (no profile counts as a value)
+ALTER TABLE extraction_cache DROP CONSTRAINT IF EXISTS extraction_cache_key;
+ALTER TABLE extraction_cache ADD CONSTRAINT extraction_cache_key
+  UNIQUE NULLS NOT DISTINCT (user_id, file_hash, provider, model, profile_id);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_cache_profile_id ON extraction_cache(profile_id);
+
+-- Results extracted with an edited or deleted profile are stale. Profiles are shared, so this
+-- clears every user's results for the profile and runs as the owner to get past RLS.
+CREATE OR REPLACE FUNCTION public.clear_profile_extraction_cache()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.extraction_cache WHERE profile_id = old.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER clear_institution_profile_extraction_cache AFTER UPDATE OR DELETE ON institution_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.clear_profile_extraction_cache();
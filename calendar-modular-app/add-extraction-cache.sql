@@ -0,0 +1,37 @@
+-- Reuse extraction results when the same PDF is uploaded again
+
+-- SHA-256 of the uploaded file, hex encoded
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS file_hash TEXT;
+
+-- Validated extraction output per user and file. Kept per user because schedules
+-- can contain personal details, so one user's upload never answers another's.
+CREATE TABLE IF NOT EXISTS extraction_cache (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  file_hash TEXT NOT NULL,
+  provider TEXT, -- Extraction provider that produced the result
+  extraction_result JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, file_hash)
+);
+
+-- Enable Row Level Security
+ALTER TABLE extraction_cache ENABLE ROW LEVEL SECURITY;
+
+-- Policies for extraction_cache
+CREATE POLICY "Users can view their own cached extractions"
+  ON extraction_cache FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cached extractions"
+  ON extraction_cache FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cached extractions"
+  ON extraction_cache FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cached extractions"
+  ON extraction_cache FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_pdf_uploads_file_hash ON pdf_uploads(user_id, file_hash);
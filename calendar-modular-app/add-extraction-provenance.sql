@@ -0,0 +1,10 @@
+-- Store extraction confidence and the source text each class was read from
+
+-- How well the PDF text supports the parsed fields, 0-1 (NULL for manually entered classes)
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS confidence REAL;
+
+-- Page and character offsets into the extracted text, plus the snippet itself
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS source_page INTEGER;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS source_start INTEGER;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS source_end INTEGER;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS source_text TEXT;
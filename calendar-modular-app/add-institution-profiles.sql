@@ -0,0 +1,47 @@
+-- Institution profiles: per-school extraction hints shared by everyone at that school
+
+CREATE TABLE IF NOT EXISTS institution_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL, -- e.g. "State University (Banner)"
+  prompt_hints TEXT, -- Free-form notes added to the extraction prompt
+  day_abbreviations JSONB DEFAULT '{}'::jsonb, -- Registrar abbreviation -> day code, e.g. {"Th": "R"}
+  time_format TEXT CHECK (time_format IN ('12h', '24h')), -- NULL = detect from the PDF
+  column_order TEXT[] DEFAULT '{}', -- Typical column order on the school's schedules
+  term_start DATE, -- Used when a class doesn't list its own term dates
+  term_end DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE institution_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Profiles are shared: every signed-in user can use them, only their creator can change them
+CREATE POLICY "Signed-in users can view institution profiles"
+  ON institution_profiles FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can insert their own institution profiles"
+  ON institution_profiles FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update their own institution profiles"
+  ON institution_profiles FOR UPDATE
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete their own institution profiles"
+  ON institution_profiles FOR DELETE
+  USING (auth.uid() = created_by);
+
+CREATE TRIGGER update_institution_profiles_updated_at BEFORE UPDATE ON institution_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Profile chosen for an upload, so a retry or a server job extracts it the same way
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS profile_id UUID REFERENCES institution_profiles(id) ON DELETE SET NULL;
+
+-- A cached result only answers uploads that use the same profile
+ALTER TABLE extraction_cache ADD COLUMN IF NOT EXISTS profile_id UUID;
+
+-- The profile a user picked last, preselected on their next upload
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS institution_profile_id UUID REFERENCES institution_profiles(id) ON DELETE SET NULL;
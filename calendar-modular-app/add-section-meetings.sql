@@ -0,0 +1,5 @@
+-- Let a section own several weekly meetings (e.g. MW lecture + F lab)
+
+-- days/start_time/end_time/location stay the primary meeting; the others are stored here as
+-- [{"days": ["F"], "start_time": "14:00", "end_time": "16:00", "location": "SCI 110", "meeting_type": "lab"}]
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS extra_meetings JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,13 @@
+-- Track each pdf_uploads row as a job: pending -> processing -> review -> completed, or failed
+
+-- How many times extraction has been started for this upload
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+
+-- When the job entered each step (cleared when a retry starts over)
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS extracted_at TIMESTAMPTZ;
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ;
+
+-- Unfinished jobs are listed on the upload page
+CREATE INDEX IF NOT EXISTS idx_pdf_uploads_status ON pdf_uploads(user_id, processing_status);
@@ -0,0 +1,7 @@
+-- Let the upload page follow and stop a job that runs on the extraction server
+
+-- The step the job is on, as an ExtractionProgress object (cleared when the job ends)
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS processing_step JSONB;
+
+-- Set when the user cancels; the server checks it between steps and records the job as failed
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
@@ -0,0 +1,12 @@
+-- Stage extracted classes on the upload so they can be reviewed before saving
+
+-- Extraction output (classes + validation issues) waiting for review
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS extraction_result JSONB;
+
+-- Track the reviewed classes were saved into
+ALTER TABLE pdf_uploads ADD COLUMN IF NOT EXISTS track_id UUID REFERENCES schedule_tracks(id) ON DELETE SET NULL;
+
+-- Allow the new 'review' status between processing and completed
+ALTER TABLE pdf_uploads DROP CONSTRAINT IF EXISTS pdf_uploads_processing_status_check;
+ALTER TABLE pdf_uploads ADD CONSTRAINT pdf_uploads_processing_status_check
+  CHECK (processing_status IN ('pending', 'processing', 'review', 'completed', 'failed'));
@@ -0,0 +1,241 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ExtractedClass } from '../src/services/pdfProcessor';
+import {
+  createExtractionProvider,
+  extractionConfigFromEnv,
+  type ExtractionProvider,
+  type ExtractionProviderName
+} from '../src/services/extractionProviders';
+import { extractClassesFromText, extractTextFromDocument } from '../src/services/extractionPipeline';
+import { validateExtractedClasses } from '../src/services/classValidation';
+import type { InstitutionProfile } from '../src/services/institutionProfiles';
+import { openDocument } from './extractionJob';
+import {
+  SCORED_FIELDS,
+  addScores,
+  emptyScores,
+  f1,
+  precision,
+  recall,
+  scoreExtraction,
+  type ExtractionScores,
+  type ScoredField
+} from './extractionScoring';
+
+/**
+ * Extraction eval: runs the pipeline over golden fixtures and reports precision and
+ * recall per field, so prompt and parser changes are checked before they ship.
+ *
+ *   npm run eval:extraction                       replay the recorded model output (offline)
+ *   npm run eval:extraction -- --provider rules   rule-based parser only (offline)
+ *   npm run eval:extraction -- --record           call the configured model and save its output
+ *   npm run eval:extraction:check                 replay and run the rules parser, failing when a field's F1 drops
+ *                                                 below its threshold (--min-f1 0.9,rooms=0.6: default, then per field)
+ *
+ * Each fixture is a folder holding schedule.pdf or schedule.txt, expected.json (the classes
+ * it should produce) and optionally response.json (model output, recorded or written by hand in
+ * the model's format) and profile.json. Hand-written responses say so in their provider and note,
+ * and should be replaced by --record output.
+ * --record and live providers read the same environment variables as the extraction server.
+ */
+
+const { values: args } = parseArgs({
+  options: {
+    fixtures: { type: 'string', default: 'server/fixtures/extraction' },
+    // 'recorded' replays response.json; anything else is an extraction provider name
+    provider: { type: 'string', default: 'recorded' },
+    record: { type: 'boolean', default: false },
+    only: { type: 'string' },
+    // Exit non-zero when a field's overall F1 falls below its threshold: "0.9" or "0.9,instructors=0.25"
+    'min-f1': { type: 'string' },
+    verbose: { type: 'boolean', default: false },
+  },
+});
+
+// response.json: one provider's raw output for the fixture's text
+interface Recording {
+  provider: string;
+  recorded_at: string;
+  // Where the output came from when it wasn't recorded
+  note?: string;
+  classes: unknown[];
+}
+
+interface Fixture {
+  name: string;
+  dir: string;
+  text: string;
+  expected: ExtractedClass[];
+  recording: Recording | null;
+  profile: InstitutionProfile | null;
+}
+
+const print = (line: string = '') => process.stdout.write(`${line}\n`);
+
+async function readJSON<T>(path: string): Promise<T | null> {
+  return existsSync(path) ? JSON.parse(await readFile(path, 'utf8')) as T : null;
+}
+
+async function loadFixture(dir: string, name: string): Promise<Fixture> {
+  const pdfPath = join(dir, 'schedule.pdf');
+  const textPath = join(dir, 'schedule.txt');
+
+  let text: string;
+  if (existsSync(pdfPath)) {
+    const data = await readFile(pdfPath);
+    text = await extractTextFromDocument(await openDocument(data));
+  } else if (existsSync(textPath)) {
+    text = await readFile(textPath, 'utf8');
+  } else {
+    throw new Error('No schedule.pdf or schedule.txt');
+  }
+
+  // The golden list goes through the same validation, so it is compared in normalized form
+  const rawExpected = await readJSON<unknown[]>(join(dir, 'expected.json'));
+  if (!Array.isArray(rawExpected)) throw new Error('expected.json is missing or not an array');
+  const { classes: expected, issues } = validateExtractedClasses(rawExpected);
+  const errors = issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`expected.json row ${errors[0].row + 1}: ${errors[0].message}`);
+  }
+
+  return {
+    name,
+    dir,
+    text,
+    expected,
+    recording: await readJSON<Recording>(join(dir, 'response.json')),
+    profile: await readJSON<InstitutionProfile>(join(dir, 'profile.json')),
+  };
+}
+
+function createRecordedProvider(fixture: Fixture): ExtractionProvider {
+  return {
+    name: 'recorded',
+    async extractClasses() {
+      if (!fixture.recording) {
+        throw new Error('No response.json recorded; run with --record first');
+      }
+      return fixture.recording.classes as ExtractedClass[];
+    }
+  };
+}
+
+/**
+ * Wrap a live provider so its raw output is saved as the fixture's response.json
+ */
+function withRecording(provider: ExtractionProvider, fixture: Fixture): ExtractionProvider {
+  return {
+    name: provider.name,
+    async extractClasses(pdfText, context) {
+      const classes = await provider.extractClasses(pdfText, context);
+      const recording: Recording = { provider: provider.name, recorded_at: new Date().toISOString(), classes };
+      await writeFile(join(fixture.dir, 'response.json'), `${JSON.stringify(recording, null, 2)}\n`);
+      return classes;
+    }
+  };
+}
+
+function providerFor(fixture: Fixture): ExtractionProvider {
+  if (args.provider === 'recorded' && !args.record) return createRecordedProvider(fixture);
+
+  const config = extractionConfigFromEnv(process.env);
+  if (args.provider !== 'recorded') config.provider = args.provider as ExtractionProviderName;
+  const provider = createExtractionProvider(config, fixture.profile);
+  return args.record ? withRecording(provider, fixture) : provider;
+}
+
+const formatRatio = (value: number) => value.toFixed(2);
+
+/**
+ * Read --min-f1: an optional default for every field, then field=value overrides
+ */
+function parseThresholds(text: string): Partial<Record<ScoredField, number>> {
+  const thresholds: Partial<Record<ScoredField, number>> = {};
+  for (const part of text.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const [field, value] = part.includes('=') ? part.split('=') : [null, part];
+    const threshold = Number(value);
+    if (!Number.isFinite(threshold) || (field !== null && !SCORED_FIELDS.includes(field as ScoredField))) {
+      throw new Error(`Invalid --min-f1 entry "${part}"`);
+    }
+    for (const target of field === null ? SCORED_FIELDS : [field as ScoredField]) {
+      thresholds[target] = threshold;
+    }
+  }
+  return thresholds;
+}
+
+function printScores(scores: ExtractionScores) {
+  print(`  ${'field'.padEnd(12)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'f1'.padStart(8)}    matched/predicted/expected`);
+  for (const field of SCORED_FIELDS) {
+    const counts = scores[field];
+    print(
+      `  ${field.padEnd(12)}${formatRatio(precision(counts)).padStart(10)}${formatRatio(recall(counts)).padStart(10)}` +
+      `${formatRatio(f1(counts)).padStart(8)}    ${counts.matched}/${counts.predicted}/${counts.expected}`
+    );
+  }
+}
+
+async function main() {
+  // The pipeline narrates every step; keep the report readable unless asked
+  if (!args.verbose) {
+    console.log = () => undefined;
+    console.warn = () => undefined;
+  }
+
+  let thresholds: Partial<Record<ScoredField, number>>;
+  try {
+    thresholds = parseThresholds(args['min-f1'] ?? '');
+  } catch (error) {
+    print(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
+    return;
+  }
+
+  const names = (await readdir(args.fixtures, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && (!args.only || entry.name.includes(args.only)))
+    .map(entry => entry.name)
+    .sort();
+
+  if (names.length === 0) {
+    print(`No fixtures found in ${args.fixtures}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let total = emptyScores();
+  let failures = 0;
+
+  for (const name of names) {
+    try {
+      const fixture = await loadFixture(join(args.fixtures, name), name);
+      const { classes } = await extractClassesFromText(fixture.text, providerFor(fixture), { profile: fixture.profile });
+      const scores = scoreExtraction(fixture.expected, classes);
+      total = addScores(total, scores);
+
+      const fieldF1 = SCORED_FIELDS.filter(field => field !== 'classes').map(field => `${field} ${formatRatio(f1(scores[field]))}`);
+      print(`${name}: ${scores.classes.matched} of ${scores.classes.expected} classes found, ${classes.length} extracted`);
+      print(`  f1: ${fieldF1.join('  ')}`);
+    } catch (error) {
+      failures++;
+      print(`${name}: FAILED - ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  print();
+  print(`Overall (${names.length - failures} of ${names.length} fixtures):`);
+  printScores(total);
+
+  const belowMin = SCORED_FIELDS.filter(field => f1(total[field]) < (thresholds[field] ?? 0));
+  if (belowMin.length > 0) {
+    print();
+    print(`F1 below threshold: ${belowMin.map(field => `${field} ${formatRatio(f1(total[field]))} < ${thresholds[field]}`).join(', ')}`);
+  }
+
+  if (failures > 0 || belowMin.length > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,151 @@
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { createExtractionProvider, type ExtractionConfig } from '../src/services/extractionProviders';
+import { extractClassesFromDocument } from '../src/services/extractionPipeline';
+import { defaultTrackName, saveExtractedClasses } from '../src/services/classCatalog';
+import { loadCachedExtraction, sha256Hex, storeCachedExtraction } from '../src/services/extractionCache';
+import { jobCompleted, jobFailed, jobStaged, updateUploadJob } from '../src/services/uploadJobs';
+import { loadInstitutionProfile } from '../src/services/institutionProfiles';
+import { ExtractionCancelledError, throwIfCancelled, type ExtractionContext, type ExtractionProgress } from '../src/services/extractionProgress';
+
+// pdf.js can't fetch its bundled fonts in Node on its own; scanned pages need them to render for OCR
+const standardFontDataUrl = `${dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'))}/standard_fonts/`;
+
+/**
+ * Open a PDF with the Node build of pdf.js
+ */
+export function openDocument(data: ArrayBuffer | Uint8Array) {
+  return getDocument({ data: new Uint8Array(data), standardFontDataUrl }).promise;
+}
+
+export interface UploadRecord {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_path: string;
+  file_hash?: string | null;
+  profile_id?: string | null;
+}
+
+// How often a running job writes its step and looks for a cancel request
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * Follow one job through its pdf_uploads row: the latest step is written there for the
+ * upload page, and the returned signal aborts once the user asks to cancel.
+ */
+function watchUploadJob(supabase: SupabaseClient, uploadId: string): Required<ExtractionContext> & { stop: () => void } {
+  const controller = new AbortController();
+  let step: ExtractionProgress | null = null;
+  let written: ExtractionProgress | null = null;
+  let busy = false;
+
+  const check = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      const current = step;
+      const query = current === written
+        ? supabase.from('pdf_uploads').select('cancel_requested_at')
+        : supabase.from('pdf_uploads').update({ processing_step: current }).select('cancel_requested_at');
+      // Once the job has ended its row is left alone
+      const { data, error } = await query.eq('id', uploadId).eq('processing_status', 'processing').maybeSingle();
+
+      if (error) throw error;
+      written = current;
+      if (data?.cancel_requested_at) controller.abort();
+    } catch (error) {
+      // Progress is only shown to the user; the job carries on without it
+      console.error(`Upload ${uploadId}: could not check the job row:`, error);
+    } finally {
+      busy = false;
+    }
+  };
+
+  const interval = setInterval(check, WATCH_INTERVAL_MS);
+
+  return {
+    signal: controller.signal,
+    onProgress: progress => {
+      step = progress;
+    },
+    stop: () => clearInterval(interval)
+  };
+}
+
+export interface ExtractionJobOptions {
+  // Save straight to class_catalog instead of staging the classes for review
+  autoCommit?: boolean;
+  trackName?: string;
+  // Ignore a cached result for the same PDF and extract again
+  force?: boolean;
+}
+
+/**
+ * Extract one upload: download the PDF from storage, run the pipeline and record the
+ * outcome on the pdf_uploads row. Never throws; failures end up in error_message,
+ * and a job the user cancelled is recorded as failed with "Cancelled".
+ */
+export async function runExtractionJob(
+  supabase: SupabaseClient,
+  upload: UploadRecord,
+  config: ExtractionConfig,
+  options: ExtractionJobOptions = {}
+): Promise<void> {
+  const { signal, onProgress, stop } = watchUploadJob(supabase, upload.id);
+
+  try {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from('pdf-uploads')
+      .download(upload.file_path);
+
+    if (downloadError || !file) {
+      console.error('Failed to download PDF:', downloadError);
+      throw new Error('Could not read the uploaded PDF from storage');
+    }
+
+    throwIfCancelled(signal);
+    const data = await file.arrayBuffer();
+    const fileHash = upload.file_hash || await sha256Hex(data);
+    if (!upload.file_hash) {
+      await updateUploadJob(supabase, upload.id, { file_hash: fileHash });
+    }
+
+    const profileId = upload.profile_id ?? null;
+    let result = options.force ? null : await loadCachedExtraction(supabase, upload.user_id, fileHash, config, profileId);
+    if (result) {
+      console.log(`Upload ${upload.id}: reusing the cached result from ${result.cachedAt}`);
+    } else {
+      const profile = profileId ? await loadInstitutionProfile(supabase, profileId) : null;
+      const pdf = await openDocument(data);
+      result = await extractClassesFromDocument(pdf, createExtractionProvider(config, profile), { profile, signal, onProgress });
+      await storeCachedExtraction(supabase, upload.user_id, fileHash, result, config, profileId);
+    }
+
+    throwIfCancelled(signal);
+    if (options.autoCommit) {
+      const trackId = await saveExtractedClasses(supabase, upload.user_id, result.classes, {
+        name: options.trackName || defaultTrackName(upload.file_name),
+        pdfFilename: upload.file_name
+      }, { signal, onProgress });
+
+      await updateUploadJob(supabase, upload.id, jobCompleted(result.classes.length, trackId));
+    } else {
+      await updateUploadJob(supabase, upload.id, jobStaged(result));
+    }
+
+    console.log(`Upload ${upload.id}: extracted ${result.classes.length} classes`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to process PDF';
+    if (error instanceof ExtractionCancelledError) {
+      console.log(`Upload ${upload.id}: cancelled`);
+    } else {
+      console.error(`Upload ${upload.id} failed:`, error);
+    }
+    await updateUploadJob(supabase, upload.id, jobFailed(message)).catch(updateError => console.error('Failed to record the failure:', updateError));
+  } finally {
+    stop();
+  }
+}
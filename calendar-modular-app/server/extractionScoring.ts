@@ -0,0 +1,141 @@
+import type { ExtractedClass } from '../src/services/pdfProcessor';
+import { classMeetings } from '../src/services/sectionMeetings';
+
+/**
+ * Field-level precision and recall of extracted classes against a hand-checked list.
+ * Classes are paired up first; each field then counts as a set of facts, so a class
+ * with the right code but a wrong room loses only the room.
+ */
+
+export const SCORED_FIELDS = ['classes', 'codes', 'sections', 'names', 'instructors', 'days', 'times', 'rooms'] as const;
+
+export type ScoredField = typeof SCORED_FIELDS[number];
+
+export interface FieldCounts {
+  // Facts found in both lists
+  matched: number;
+  predicted: number;
+  expected: number;
+}
+
+export type ExtractionScores = Record<ScoredField, FieldCounts>;
+
+const compact = (value: string | undefined) => value?.trim().replace(/\s+/g, ' ') || undefined;
+const normalizeCode = (value: string | undefined) => value?.toUpperCase().replace(/[^A-Z0-9]/g, '') || undefined;
+const normalizeText = (value: string | undefined) => compact(value)?.toLowerCase();
+const normalizeRoom = (value: string | undefined) => compact(value)?.toUpperCase();
+
+// Facts each class contributes per field; day, time and room facts come from every meeting
+function classFacts(cls: ExtractedClass): Record<Exclude<ScoredField, 'classes'>, string[]> {
+  const meetings = classMeetings(cls);
+  const single = (value: string | undefined) => (value ? [value] : []);
+  return {
+    codes: single(normalizeCode(cls.course_code)),
+    sections: single(normalizeCode(cls.section)),
+    names: single(normalizeText(cls.course_name)),
+    instructors: single(normalizeText(cls.instructor)),
+    days: meetings.flatMap(meeting => meeting.days),
+    times: meetings.map(meeting => `${meeting.start_time.slice(0, 5)}-${meeting.end_time.slice(0, 5)}`),
+    rooms: meetings.flatMap(meeting => single(normalizeRoom(meeting.location))),
+  };
+}
+
+// How many facts two lists share, counting repeats (two Monday meetings are two facts)
+function sharedCount(expected: string[], predicted: string[]): number {
+  const remaining = [...predicted];
+  let shared = 0;
+  for (const fact of expected) {
+    const index = remaining.indexOf(fact);
+    if (index >= 0) {
+      remaining.splice(index, 1);
+      shared++;
+    }
+  }
+  return shared;
+}
+
+// How sure we are that two rows are the same class; below 2 they are not paired
+function pairScore(expected: ExtractedClass, predicted: ExtractedClass): number {
+  const same = (a: string | undefined, b: string | undefined) => a !== undefined && a === b;
+  let score = 0;
+  if (same(normalizeCode(expected.course_code), normalizeCode(predicted.course_code))) score += 2;
+  if (same(normalizeCode(expected.section), normalizeCode(predicted.section))) score += 1;
+  if (same(normalizeText(expected.course_name), normalizeText(predicted.course_name))) score += 1;
+  if (expected.start_time.slice(0, 5) === predicted.start_time.slice(0, 5) && expected.days.join('') === predicted.days.join('')) score += 1;
+  return score;
+}
+
+/**
+ * Pair each expected class with the predicted class it most likely is, best pairs first
+ */
+export function pairClasses(expected: ExtractedClass[], predicted: ExtractedClass[]): Array<[number, number]> {
+  const candidates: Array<{ expectedIndex: number; predictedIndex: number; score: number }> = [];
+  expected.forEach((exp, expectedIndex) => {
+    predicted.forEach((pred, predictedIndex) => {
+      const score = pairScore(exp, pred);
+      if (score >= 2) candidates.push({ expectedIndex, predictedIndex, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedExpected = new Set<number>();
+  const usedPredicted = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const { expectedIndex, predictedIndex } of candidates) {
+    if (usedExpected.has(expectedIndex) || usedPredicted.has(predictedIndex)) continue;
+    usedExpected.add(expectedIndex);
+    usedPredicted.add(predictedIndex);
+    pairs.push([expectedIndex, predictedIndex]);
+  }
+  return pairs;
+}
+
+export function emptyScores(): ExtractionScores {
+  return Object.fromEntries(SCORED_FIELDS.map(field => [field, { matched: 0, predicted: 0, expected: 0 }])) as ExtractionScores;
+}
+
+/**
+ * Score one document. Facts of unpaired classes count against precision or recall.
+ */
+export function scoreExtraction(expected: ExtractedClass[], predicted: ExtractedClass[]): ExtractionScores {
+  const scores = emptyScores();
+  const pairs = pairClasses(expected, predicted);
+  scores.classes = { matched: pairs.length, predicted: predicted.length, expected: expected.length };
+
+  const expectedFacts = expected.map(classFacts);
+  const predictedFacts = predicted.map(classFacts);
+
+  for (const field of SCORED_FIELDS) {
+    if (field === 'classes') continue;
+    scores[field].expected = expectedFacts.reduce((sum, facts) => sum + facts[field].length, 0);
+    scores[field].predicted = predictedFacts.reduce((sum, facts) => sum + facts[field].length, 0);
+    scores[field].matched = pairs.reduce(
+      (sum, [e, p]) => sum + sharedCount(expectedFacts[e][field], predictedFacts[p][field]),
+      0
+    );
+  }
+
+  return scores;
+}
+
+export function addScores(a: ExtractionScores, b: ExtractionScores): ExtractionScores {
+  const total = emptyScores();
+  for (const field of SCORED_FIELDS) {
+    total[field] = {
+      matched: a[field].matched + b[field].matched,
+      predicted: a[field].predicted + b[field].predicted,
+      expected: a[field].expected + b[field].expected,
+    };
+  }
+  return total;
+}
+
+// Nothing predicted (or nothing expected) is a perfect score, not a division by zero
+export const precision = (counts: FieldCounts) => (counts.predicted === 0 ? 1 : counts.matched / counts.predicted);
+export const recall = (counts: FieldCounts) => (counts.expected === 0 ? 1 : counts.matched / counts.expected);
+
+export function f1(counts: FieldCounts): number {
+  const p = precision(counts);
+  const r = recall(counts);
+  return p + r === 0 ? 0 : (2 * p * r) / (p + r);
+}
@@ -0,0 +1,176 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { extractionConfigFromEnv } from '../src/services/extractionProviders';
+import { STALLED_AFTER_MS, jobStarted } from '../src/services/uploadJobs';
+import { findCalendarFeed, markCalendarFeedFetched } from '../src/services/calendarFeeds';
+import { buildScheduleCalendar } from '../src/services/scheduleCalendar';
+import { writeICS } from '../src/services/icsWriter';
+import { runExtractionJob, type UploadRecord } from './extractionJob';
+
+/**
+ * Extraction server. Model API keys live here instead of in the browser bundle:
+ * the client uploads the PDF to storage, calls POST /extract with the pdf_uploads id,
+ * and watches processing_status on the row until the job finishes.
+ *
+ * It also serves subscription feeds: GET /feeds/<token>.ics needs no session, since calendar
+ * apps can't sign in; the secret token in the URL picks the user.
+ */
+
+const port = Number(process.env.PORT) || 8787;
+const allowedOrigin = process.env.ALLOWED_ORIGIN || '*';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+// The service role bypasses RLS, so every request is checked against the caller's own uploads
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+const extractionConfig = extractionConfigFromEnv(process.env);
+
+// PDFs are read from storage, so request bodies only carry ids and options
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Asked of subscribed calendar apps; Google refreshes on its own schedule regardless
+const FEED_REFRESH_MINUTES = 60;
+
+function sendJSON(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJSON(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) throw new Error('Request body too large');
+  }
+  const parsed = body ? JSON.parse(body) : {};
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Expected a JSON object');
+  return parsed;
+}
+
+/**
+ * POST /extract { uploadId, autoCommit?, trackName?, force? }
+ * Starts the job and answers 202 right away; progress is tracked on pdf_uploads.
+ */
+async function handleExtract(req: IncomingMessage, res: ServerResponse) {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (!token) return sendJSON(res, 401, { error: 'Missing access token' });
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) return sendJSON(res, 401, { error: 'Invalid or expired session' });
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJSON(req);
+  } catch (error) {
+    return sendJSON(res, 400, { error: error instanceof Error ? error.message : 'Invalid request body' });
+  }
+
+  if (typeof body.uploadId !== 'string') return sendJSON(res, 400, { error: 'uploadId is required' });
+
+  const { data: upload, error: uploadError } = await supabase
+    .from('pdf_uploads')
+    .select('id, user_id, file_name, file_path, file_hash, profile_id, attempts')
+    .eq('id', body.uploadId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (uploadError) {
+    console.error('Error loading upload:', uploadError);
+    return sendJSON(res, 500, { error: 'Could not load the upload' });
+  }
+  if (!upload) return sendJSON(res, 404, { error: 'Upload not found' });
+
+  // Claim the job in one conditional update, so two requests can't both start it.
+  // An interrupted job is still "processing" on the row; it can be claimed once it has stalled.
+  const stalledBefore = new Date(Date.now() - STALLED_AFTER_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('pdf_uploads')
+    .update(jobStarted(upload.attempts))
+    .eq('id', upload.id)
+    .or(`processing_status.neq.processing,started_at.lt."${stalledBefore}",and(started_at.is.null,created_at.lt."${stalledBefore}")`)
+    .select('id');
+
+  if (claimError) {
+    console.error('Error starting extraction:', claimError);
+    return sendJSON(res, 500, { error: 'Could not start extraction' });
+  }
+  if (claimed.length === 0) return sendJSON(res, 409, { error: 'This upload is already being processed' });
+
+  sendJSON(res, 202, { uploadId: upload.id, status: 'processing' });
+
+  void runExtractionJob(supabase, upload as UploadRecord, extractionConfig, {
+    autoCommit: body.autoCommit === true,
+    trackName: typeof body.trackName === 'string' ? body.trackName : undefined,
+    force: body.force === true
+  });
+}
+
+/**
+ * GET /feeds/<token>.ics
+ * The user's schedule as it is now. Unknown and revoked tokens get the same 404.
+ */
+async function handleFeed(res: ServerResponse, token: string) {
+  let feed;
+  try {
+    feed = await findCalendarFeed(supabase, token);
+  } catch {
+    return sendJSON(res, 500, { error: 'Could not load the feed' });
+  }
+  if (!feed) return sendJSON(res, 404, { error: 'Feed not found' });
+
+  let ics: string;
+  try {
+    const calendar = await buildScheduleCalendar(supabase, feed.user_id, feed.time_zone);
+    ics = writeICS({ ...calendar, refreshMinutes: FEED_REFRESH_MINUTES });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return sendJSON(res, 500, { error: 'Could not build the feed' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': 'inline; filename="schedule.ics"',
+    'Cache-Control': 'private, max-age=300'
+  });
+  res.end(ics);
+
+  // Only shown to the user; a failed update shouldn't fail the feed
+  markCalendarFeedFetched(supabase, feed.id).catch(() => undefined);
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  try {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+    } else if (req.method === 'GET' && path === '/health') {
+      sendJSON(res, 200, { ok: true, provider: extractionConfig.provider });
+    } else if (req.method === 'POST' && path === '/extract') {
+      await handleExtract(req, res);
+    } else if ((req.method === 'GET' || req.method === 'HEAD') && path.startsWith('/feeds/') && path.endsWith('.ics')) {
+      await handleFeed(res, path.slice('/feeds/'.length, -'.ics'.length));
+    } else {
+      sendJSON(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    console.error('Unhandled request error:', error);
+    if (!res.headersSent) sendJSON(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Extraction server listening on http://localhost:${port} (provider: ${extractionConfig.provider})`);
+});
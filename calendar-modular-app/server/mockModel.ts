@@ -0,0 +1,35 @@
+import { createServer } from 'node:http';
+import { parseScheduleText } from '../src/services/scheduleParser';
+
+/**
+ * Stand-in for an OpenAI-compatible model endpoint, for running the extraction server
+ * against a local Supabase stack without an API key. Answers chat completions with
+ * whatever the rule-based parser finds in the prompt.
+ */
+
+const port = Number(process.env.MOCK_MODEL_PORT) || 8788;
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  let body = '';
+  for await (const chunk of req) body += chunk;
+
+  const { messages = [] } = JSON.parse(body || '{}') as { messages?: Array<{ role: string; content: string }> };
+  const prompt = messages.filter(message => message.role === 'user').map(message => message.content).join('\n');
+  const { classes } = parseScheduleText(prompt);
+  console.log(`Mock model answered with ${classes.length} classes`);
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    choices: [{ message: { role: 'assistant', content: JSON.stringify(classes) } }]
+  }));
+});
+
+server.listen(port, () => {
+  console.log(`Mock model listening on http://localhost:${port}/v1`);
+});
@@ -4,9 +4,15 @@ import { Login } from './pages/Login'
 import { Signup } from './pages/Signup'
 import { Calendar } from './pages/Calendar'
 import { PDFUpload } from './pages/PDFUpload'
+import { ReviewClasses } from './pages/ReviewClasses'
 import { ClassCatalog } from './pages/ClassCatalog'
 import { ManualEntry } from './pages/ManualEntry'
+import { ImportClasses } from './pages/ImportClasses'
 import { AddEvent } from './pages/AddEvent'
+import { Uploads } from './pages/Uploads'
+import { InstitutionProfiles } from './pages/InstitutionProfiles'
+import { Terms } from './pages/Terms'
+import { CalendarFeeds } from './pages/CalendarFeeds'
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth()
@@ -39,6 +45,46 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/uploads"
+            element={
+              <ProtectedRoute>
+                <Uploads />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/profiles"
+            element={
+              <ProtectedRoute>
+                <InstitutionProfiles />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/terms"
+            element={
+              <ProtectedRoute>
+                <Terms />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/subscribe"
+            element={
+              <ProtectedRoute>
+                <CalendarFeeds />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/review/:uploadId"
+            element={
+              <ProtectedRoute>
+                <ReviewClasses />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/manual"
             element={
@@ -47,6 +93,14 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/import"
+            element={
+              <ProtectedRoute>
+                <ImportClasses />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/add-event"
             element={
@@ -0,0 +1,360 @@
+import { Fragment, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ChevronDown, ChevronRight, FileSearch, Plus, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ClassMeeting, ExtractedClass, MeetingType } from '@/services/pdfProcessor'
+import { MEETING_TYPES, validateExtractedClass, type ClassValidationIssue } from '@/services/classValidation'
+import { LOW_CONFIDENCE } from '@/services/extractionProvenance'
+
+export interface ReviewRow extends ExtractedClass {
+  id: string
+}
+
+interface ClassReviewTableProps {
+  rows: ReviewRow[]
+  onChange: (rows: ReviewRow[]) => void
+}
+
+type TextField =
+  | 'course_code' | 'course_name' | 'section' | 'crn' | 'start_time' | 'end_time' | 'location' | 'instructor'
+  | 'term_start' | 'term_end' | 'final_exam_date' | 'final_exam_start' | 'final_exam_end'
+
+interface Column {
+  field: TextField
+  label: string
+  placeholder: string
+  className: string
+  type?: 'date'
+}
+
+const DAYS = ['M', 'T', 'W', 'R', 'F', 'S', 'U']
+
+// Columns before and after the day toggles
+const LEADING_COLUMNS: Column[] = [
+  { field: 'course_code', label: 'Code', placeholder: 'CS 101', className: 'w-24' },
+  { field: 'course_name', label: 'Course Name', placeholder: 'Intro to CS', className: 'min-w-48' },
+  { field: 'section', label: 'Sec', placeholder: '001', className: 'w-16' },
+  { field: 'crn', label: 'CRN', placeholder: '12345', className: 'w-20' },
+]
+
+const TRAILING_COLUMNS: Column[] = [
+  { field: 'start_time', label: 'Start', placeholder: '09:00', className: 'w-20' },
+  { field: 'end_time', label: 'End', placeholder: '10:15', className: 'w-20' },
+  { field: 'location', label: 'Location', placeholder: 'Room 204', className: 'w-36' },
+  { field: 'instructor', label: 'Instructor', placeholder: 'Dr. Smith', className: 'w-36' },
+]
+
+// Term and exam fields, shown when a row is expanded
+const DETAIL_COLUMNS: Column[] = [
+  { field: 'term_start', label: 'Term Start', placeholder: '', className: 'w-36', type: 'date' },
+  { field: 'term_end', label: 'Term End', placeholder: '', className: 'w-36', type: 'date' },
+  { field: 'final_exam_date', label: 'Final Exam', placeholder: '', className: 'w-36', type: 'date' },
+  { field: 'final_exam_start', label: 'Exam Start', placeholder: '08:00', className: 'w-20' },
+  { field: 'final_exam_end', label: 'Exam End', placeholder: '10:00', className: 'w-20' },
+]
+
+const TABLE_COLUMN_COUNT = LEADING_COLUMNS.length + TRAILING_COLUMNS.length + 5
+
+function toggledDays(days: string[], day: string) {
+  return days.includes(day)
+    ? days.filter(d => d !== day)
+    : DAYS.filter(d => d === day || days.includes(d))
+}
+
+function DayToggles({ days, onToggle, className }: { days: string[]; onToggle: (day: string) => void; className?: string }) {
+  return (
+    <div className={cn('flex gap-1 rounded-md p-0.5', className)}>
+      {DAYS.map(day => (
+        <button
+          key={day}
+          type="button"
+          onClick={() => onToggle(day)}
+          className={`w-6 h-7 rounded text-xs ${
+            days.includes(day)
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-200 text-gray-700'
+          }`}
+        >
+          {day}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function MeetingTypeSelect({ value, onChange, className }: { value?: MeetingType; onChange: (value?: MeetingType) => void; className?: string }) {
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || undefined) as MeetingType | undefined)}
+      className={cn('h-8 w-28 rounded-md border border-input bg-background px-2 text-sm capitalize', className)}
+    >
+      <option value="">—</option>
+      {MEETING_TYPES.map(type => (
+        <option key={type} value={type}>{type}</option>
+      ))}
+    </select>
+  )
+}
+
+function fieldClass(issues: ClassValidationIssue[], field: keyof ExtractedClass) {
+  const fieldIssues = issues.filter(issue => issue.field === field)
+  if (fieldIssues.some(issue => issue.severity === 'error')) return 'border-red-500 bg-red-50'
+  if (fieldIssues.length > 0) return 'border-amber-400 bg-amber-50'
+  return ''
+}
+
+function ConfidenceBadge({ row }: { row: ReviewRow }) {
+  if (row.confidence === undefined) return null
+  const low = row.confidence < LOW_CONFIDENCE
+  return (
+    <span
+      title={row.source ? `Page ${row.source.page}: ${row.source.text}` : 'Not found in the PDF text'}
+      className={cn('inline-block px-1.5 py-1 rounded text-xs font-medium', low ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700')}
+    >
+      {Math.round(row.confidence * 100)}%
+    </span>
+  )
+}
+
+/**
+ * Editable grid of extracted classes. Every edit is re-validated so
+ * suspicious or invalid values stay highlighted until they're fixed.
+ * Low-confidence rows show the PDF text they were read from next to the parsed fields,
+ * and a section's other meetings (labs, discussions) are edited under its main row.
+ */
+export function ClassReviewTable({ rows, onChange }: ClassReviewTableProps) {
+  const [showSources, setShowSources] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const updateRow = (id: string, changes: Partial<ExtractedClass>) => {
+    onChange(rows.map(row => (row.id === id ? { ...row, ...changes } : row)))
+  }
+
+  const toggleDay = (row: ReviewRow, day: string) => {
+    updateRow(row.id, { days: toggledDays(row.days, day) })
+  }
+
+  const updateMeeting = (row: ReviewRow, position: number, changes: Partial<ClassMeeting>) => {
+    const extraMeetings = (row.extra_meetings ?? []).map((meeting, i) => (i === position ? { ...meeting, ...changes } : meeting))
+    updateRow(row.id, { extra_meetings: extraMeetings })
+  }
+
+  const addMeeting = (row: ReviewRow) => {
+    updateRow(row.id, { extra_meetings: [...(row.extra_meetings ?? []), { days: [], start_time: '', end_time: '' }] })
+  }
+
+  const removeMeeting = (row: ReviewRow, position: number) => {
+    const extraMeetings = (row.extra_meetings ?? []).filter((_, i) => i !== position)
+    updateRow(row.id, { extra_meetings: extraMeetings.length > 0 ? extraMeetings : undefined })
+  }
+
+  const removeRow = (id: string) => {
+    onChange(rows.filter(row => row.id !== id))
+  }
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setExpanded(next)
+  }
+
+  const renderInput = (row: ReviewRow, column: Column, issues: ClassValidationIssue[]) => (
+    <Input
+      type={column.type ?? 'text'}
+      value={row[column.field] ?? ''}
+      placeholder={column.placeholder}
+      onChange={(e) => updateRow(row.id, { [column.field]: e.target.value })}
+      className={cn('h-8 text-sm', column.className, fieldClass(issues, column.field))}
+    />
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="flex justify-end mb-2">
+        <Button variant="outline" size="sm" onClick={() => setShowSources(!showSources)}>
+          <FileSearch className="h-4 w-4 mr-1" />
+          {showSources ? 'Hide Source Text' : 'Show Source Text'}
+        </Button>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            {LEADING_COLUMNS.map(column => (
+              <th key={column.field} className="py-2 pr-2 font-medium">{column.label}</th>
+            ))}
+            <th className="py-2 pr-2 font-medium">Days</th>
+            {TRAILING_COLUMNS.map(column => (
+              <th key={column.field} className="py-2 pr-2 font-medium">{column.label}</th>
+            ))}
+            <th className="py-2 pr-2 font-medium">Type</th>
+            <th className="py-2 pr-2 font-medium">Cr.</th>
+            <th className="py-2 pr-2 font-medium">Conf.</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const { issues } = validateExtractedClass(row, index)
+            const lowConfidence = row.confidence !== undefined && row.confidence < LOW_CONFIDENCE
+            const showSource = showSources || lowConfidence
+            const isExpanded = expanded.has(row.id)
+            const extraMeetings = row.extra_meetings ?? []
+            const hasDetails = isExpanded || extraMeetings.length > 0 || issues.length > 0 || (showSource && row.confidence !== undefined)
+
+            return (
+              <Fragment key={row.id}>
+                <tr className={cn('align-top', !hasDetails && 'border-b', lowConfidence && 'bg-red-50/40')}>
+                  {LEADING_COLUMNS.map(column => (
+                    <td key={column.field} className="py-2 pr-2">
+                      {renderInput(row, column, issues)}
+                    </td>
+                  ))}
+                  <td className="py-2 pr-2">
+                    <DayToggles
+                      days={row.days}
+                      onToggle={(day) => toggleDay(row, day)}
+                      className={fieldClass(issues, 'days') && `border ${fieldClass(issues, 'days')}`}
+                    />
+                  </td>
+                  {TRAILING_COLUMNS.map(column => (
+                    <td key={column.field} className="py-2 pr-2">
+                      {renderInput(row, column, issues)}
+                    </td>
+                  ))}
+                  <td className="py-2 pr-2">
+                    <MeetingTypeSelect
+                      value={row.meeting_type}
+                      onChange={(meeting_type) => updateRow(row.id, { meeting_type })}
+                      className={fieldClass(issues, 'meeting_type')}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={row.credits ?? ''}
+                      onChange={(e) => updateRow(row.id, { credits: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className={cn('h-8 w-16 text-sm', fieldClass(issues, 'credits'))}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <ConfidenceBadge row={row} />
+                  </td>
+                  <td className="py-2 flex gap-1">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => toggleExpanded(row.id)}
+                      title="Other meetings, term dates and final exam"
+                      className="h-8 w-8"
+                    >
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => removeRow(row.id)}
+                      title="Remove row"
+                      className="h-8 w-8"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </td>
+                </tr>
+                {hasDetails && (
+                  <tr className="border-b">
+                    <td colSpan={TABLE_COLUMN_COUNT} className="pb-2">
+                      {extraMeetings.map((meeting, position) => (
+                        <div key={position} className="flex items-center gap-2 mb-2">
+                          <span className="text-xs text-gray-500 w-20">Meeting {position + 2}</span>
+                          <DayToggles
+                            days={meeting.days}
+                            onToggle={(day) => updateMeeting(row, position, { days: toggledDays(meeting.days, day) })}
+                          />
+                          <Input
+                            value={meeting.start_time}
+                            placeholder="14:00"
+                            onChange={(e) => updateMeeting(row, position, { start_time: e.target.value })}
+                            className="h-8 w-20 text-sm"
+                          />
+                          <Input
+                            value={meeting.end_time}
+                            placeholder="16:00"
+                            onChange={(e) => updateMeeting(row, position, { end_time: e.target.value })}
+                            className="h-8 w-20 text-sm"
+                          />
+                          <Input
+                            value={meeting.location ?? ''}
+                            placeholder="Room"
+                            onChange={(e) => updateMeeting(row, position, { location: e.target.value })}
+                            className="h-8 w-36 text-sm"
+                          />
+                          <MeetingTypeSelect
+                            value={meeting.meeting_type}
+                            onChange={(meeting_type) => updateMeeting(row, position, { meeting_type })}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeMeeting(row, position)}
+                            title="Remove meeting"
+                            className="h-8 w-8"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      {isExpanded && (
+                        <Button variant="outline" size="sm" onClick={() => addMeeting(row)} className="mb-2">
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Meeting
+                        </Button>
+                      )}
+                      {isExpanded && (
+                        <div className="flex gap-3 mb-2">
+                          {DETAIL_COLUMNS.map(column => (
+                            <div key={column.field}>
+                              <p className="text-xs text-gray-500 mb-1">{column.label}</p>
+                              {renderInput(row, column, issues)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {showSource && row.confidence !== undefined && (
+                        <p className="text-xs text-gray-600 mb-1">
+                          {row.source ? (
+                            <>
+                              <span className="font-medium">Page {row.source.page}:</span>{' '}
+                              <span className="font-mono whitespace-pre-wrap">{row.source.text.replace(/\t/g, '  ')}</span>
+                            </>
+                          ) : (
+                            'Not found in the PDF text'
+                          )}
+                        </p>
+                      )}
+                      {issues.map((issue, idx) => (
+                        <p
+                          key={idx}
+                          className={cn('text-xs', issue.severity === 'error' ? 'text-red-600' : 'text-amber-700')}
+                        >
+                          {issue.message}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
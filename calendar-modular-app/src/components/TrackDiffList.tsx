@@ -0,0 +1,113 @@
+import { EyeOff } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { ReviewRow } from '@/components/ClassReviewTable'
+import { diffEntryId, type DiffField, type TrackDiffEntry } from '@/services/trackDiff'
+
+interface TrackDiffListProps {
+  entries: TrackDiffEntry<ReviewRow>[]
+  // Ids of the changes that will be applied
+  accepted: Set<string>
+  onToggle: (id: string) => void
+}
+
+const FIELD_LABELS: Record<DiffField, string> = {
+  course_name: 'Name',
+  crn: 'CRN',
+  credits: 'Credits',
+  meeting_type: 'Type',
+  days: 'Days',
+  start_time: 'Start',
+  end_time: 'End',
+  location: 'Room',
+  instructor: 'Instructor',
+  extra_meetings: 'Other meetings',
+  term_start: 'Term start',
+  term_end: 'Term end',
+  final_exam_date: 'Final exam',
+  final_exam_start: 'Exam start',
+  final_exam_end: 'Exam end',
+}
+
+const KIND_STYLES = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-amber-100 text-amber-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-700' },
+}
+
+function describe(entry: TrackDiffEntry<ReviewRow>) {
+  const cls = entry.kind === 'removed' ? entry.existing : entry.incoming
+  const code = [cls.course_code, cls.section].filter(Boolean).join(' · ')
+  return {
+    title: code ? `${code} — ${cls.course_name}` : cls.course_name,
+    meeting: `${cls.days.join('')} ${cls.start_time.slice(0, 5)}-${cls.end_time.slice(0, 5)}`,
+  }
+}
+
+/**
+ * Added, removed and changed sections from a re-import, each with a checkbox
+ * so only the accepted changes are applied to the track. Removals start unticked.
+ */
+export function TrackDiffList({ entries, accepted, onToggle }: TrackDiffListProps) {
+  const changes = entries.filter(entry => entry.kind !== 'unchanged')
+  const unchangedCount = entries.length - changes.length
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-600">No differences from the classes already in this schedule.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {changes.map(entry => {
+        const id = diffEntryId(entry)
+        const { title, meeting } = describe(entry)
+        const style = KIND_STYLES[entry.kind]
+
+        return (
+          <label
+            key={id}
+            className={cn(
+              'flex items-start gap-3 p-3 rounded-lg border cursor-pointer',
+              accepted.has(id) ? 'bg-white' : 'bg-gray-50 opacity-60'
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={accepted.has(id)}
+              onChange={() => onToggle(id)}
+              className="mt-1"
+            />
+            <div className="flex-1 text-sm">
+              <div className="flex items-center gap-2">
+                <span className={cn('px-2 py-0.5 rounded text-xs font-medium', style.className)}>{style.label}</span>
+                <span className="font-medium">{title}</span>
+                <span className="text-gray-500">{meeting}</span>
+                {entry.kind !== 'added' && entry.existing.is_hidden && (
+                  <span className="flex items-center gap-1 text-xs text-gray-500">
+                    <EyeOff className="h-3 w-3" />
+                    hidden
+                  </span>
+                )}
+              </div>
+              {entry.kind === 'removed' && !accepted.has(id) && (
+                <p className="mt-1 text-gray-600">Not in the new PDF. Tick to remove it from the schedule.</p>
+              )}
+              {entry.kind === 'changed' && (
+                <ul className="mt-1 text-gray-600">
+                  {entry.changes.map(change => (
+                    <li key={change.field}>
+                      {FIELD_LABELS[change.field]}: <span className="line-through">{change.before || '—'}</span> → {change.after || '—'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </label>
+        )
+      })}
+      {unchangedCount > 0 && (
+        <p className="text-sm text-gray-500">{unchangedCount} unchanged {unchangedCount === 1 ? 'class' : 'classes'}</p>
+      )}
+    </div>
+  )
+}
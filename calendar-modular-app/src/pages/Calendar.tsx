@@ -1,13 +1,15 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Calendar as BigCalendar, dateFnsLocalizer } from 'react-big-calendar';
 import type { View } from 'react-big-calendar';
-import { format, parse, startOfWeek, getDay, addWeeks, startOfMonth, endOfMonth, eachDayOfInterval } from 'date-fns';
+import { format, parse, parseISO, startOfWeek, getDay, addDays, addWeeks, startOfMonth, endOfMonth, startOfDay, endOfDay } from 'date-fns';
 import { enUS } from 'date-fns/locale';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { useNavigate } from 'react-router-dom';
 import { exportCalendar } from '@/services/calendarExport';
+import { loadTermsByTrack, termRulesFor } from '@/services/academicTerms';
+import { classOccurrences, eventOccurrences } from '@/services/occurrences';
 // @ts-ignore
 import dndModule from 'react-big-calendar/lib/addons/dragAndDrop/index.js';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
@@ -34,11 +36,20 @@ interface ClassEvent {
   end: Date;
   resource: {
     class_id?: string;
+    // The events row behind a flexible event; occurrences of a repeating event share it
+    event_id?: string;
+    is_recurring?: boolean;
     course_code: string | null;
     section: string | null;
+    crn?: string | null;
+    credits?: number | null;
+    meeting_type?: string | null;
+    term_start?: string | null;
+    term_end?: string | null;
     instructor: string | null;
     location: string | null;
     is_fixed: boolean;
+    is_exam?: boolean;
     category: string | null;
   };
 }
@@ -90,6 +101,9 @@ export function Calendar() {
 
       if (eventsError) throw eventsError;
 
+      // Terms of the user's schedules, for their start and end dates and days off
+      const termsByTrack = user ? await loadTermsByTrack(supabase, user.id) : new Map();
+
       // Convert classes to calendar events
       const calendarEvents: ClassEvent[] = [];
       
@@ -105,71 +119,84 @@ export function Calendar() {
         // Show entire month
         rangeStart = startOfMonth(date);
         rangeEnd = endOfMonth(date);
+      } else if (view === 'agenda') {
+        // The agenda lists the month ahead
+        rangeStart = startOfDay(date);
+        rangeEnd = addDays(date, 30);
       } else {
         // Day view - show current day plus a few days around it
         rangeStart = addWeeks(date, -1);
         rangeEnd = addWeeks(date, 1);
       }
 
-      // Add fixed classes (recurring for all weeks in range)
+      const range = { start: rangeStart, end: endOfDay(rangeEnd) };
+
+      // Add fixed classes: every meeting in range, inside the class's term and not on holidays or breaks
       classes?.forEach((classItem) => {
-        const dayMap: { [key: string]: number } = {
-          'U': 0, 'M': 1, 'T': 2, 'W': 3, 'R': 4, 'F': 5, 'S': 6,
+        const termRules = termRulesFor(classItem, termsByTrack);
+
+        const resource = {
+          class_id: classItem.id,
+          course_code: classItem.course_code,
+          section: classItem.section,
+          crn: classItem.crn,
+          credits: classItem.credits,
+          meeting_type: classItem.meeting_type,
+          term_start: termRules.start,
+          term_end: termRules.end,
+          instructor: classItem.instructor,
+          location: classItem.location,
+          is_fixed: true,
+          category: null,
         };
 
-        classItem.days.forEach((day: string) => {
-          const dayOfWeek = dayMap[day];
-          if (dayOfWeek !== undefined) {
-            // Generate occurrences for each week in the range
-            const allDaysInRange = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
-            
-            allDaysInRange.forEach((currentDate) => {
-              if (getDay(currentDate) === dayOfWeek) {
-                const [startHour, startMinute] = classItem.start_time.split(':');
-                const [endHour, endMinute] = classItem.end_time.split(':');
-
-                const startTime = new Date(currentDate);
-                startTime.setHours(parseInt(startHour), parseInt(startMinute), 0);
-
-                const endTime = new Date(currentDate);
-                endTime.setHours(parseInt(endHour), parseInt(endMinute), 0);
-
-                calendarEvents.push({
-                  id: `${classItem.id}-${day}-${currentDate.toISOString()}`,
-                  title: `${classItem.course_name}`,
-                  start: startTime,
-                  end: endTime,
-                  resource: {
-                    class_id: classItem.id,
-                    course_code: classItem.course_code,
-                    section: classItem.section,
-                    instructor: classItem.instructor,
-                    location: classItem.location,
-                    is_fixed: true,
-                    category: null,
-                  },
-                });
-              }
+        classOccurrences(classItem, termRules, range).forEach((occurrence) => {
+          const { meeting } = occurrence;
+
+          // Final exam, shown once on its own date
+          if (!meeting) {
+            calendarEvents.push({
+              id: occurrence.id,
+              title: `Final Exam: ${classItem.course_name}`,
+              start: occurrence.start,
+              end: occurrence.end,
+              resource: { ...resource, is_exam: true },
             });
+            return;
           }
+
+          // Each meeting of the section (lecture, lab...) has its own days, times and room
+          calendarEvents.push({
+            id: occurrence.id,
+            title: meeting.meeting_type && meeting.meeting_type !== 'lecture'
+              ? `${classItem.course_name} (${meeting.meeting_type})`
+              : `${classItem.course_name}`,
+            start: occurrence.start,
+            end: occurrence.end,
+            resource: { ...resource, meeting_type: meeting.meeting_type ?? null, location: meeting.location ?? null },
+          });
         });
       });
 
-      // Add flexible events
+      // Add flexible events, repeating ones once per occurrence
       flexibleEvents?.forEach((event: any) => {
-        calendarEvents.push({
-          id: event.id,
-          title: event.title,
-          start: new Date(event.start_time),
-          end: new Date(event.end_time),
-          resource: {
-            course_code: null,
-            section: null,
-            instructor: null,
-            location: event.location,
-            is_fixed: false,
-            category: event.category,
-          },
+        eventOccurrences(event, range).forEach((occurrence) => {
+          calendarEvents.push({
+            id: occurrence.id,
+            title: event.title,
+            start: occurrence.start,
+            end: occurrence.end,
+            resource: {
+              event_id: occurrence.eventId,
+              is_recurring: occurrence.recurring,
+              course_code: null,
+              section: null,
+              instructor: null,
+              location: event.location,
+              is_fixed: false,
+              category: event.category,
+            },
+          });
         });
       });
 
@@ -206,9 +233,11 @@ export function Calendar() {
       social: '#ec4899',
     };
 
-    const backgroundColor = event.resource.is_fixed 
-      ? '#D8B2D9' 
-      : (event.resource.category ? categoryColors[event.resource.category] : '#EEDC5B');
+    const backgroundColor = event.resource.is_exam
+      ? '#F4A6A6'
+      : event.resource.is_fixed 
+        ? '#D8B2D9' 
+        : (event.resource.category ? categoryColors[event.resource.category] : '#EEDC5B');
 
     // Check for overlaps
     const hasOverlap = getOverlappingEvents(event).length > 0;
@@ -223,7 +252,7 @@ export function Calendar() {
       boxShadow: hasOverlap ? '0 0 0 2px #fee2e2, 0 0 10px rgba(239, 68, 68, 0.3)' : '0 2px 4px rgba(0, 0, 0, 0.1)',
     };
 
-    if (event.resource.is_fixed) {
+    if (event.resource.is_fixed && !event.resource.is_exam) {
       style.backgroundImage = 'repeating-linear-gradient(45deg, transparent, transparent 10px, rgba(255,255,255,.1) 10px, rgba(255,255,255,.1) 20px)';
     }
 
@@ -249,6 +278,10 @@ export function Calendar() {
       alert('Fixed classes cannot be moved. Only flexible events can be dragged.');
       return;
     }
+    if (event.resource.is_recurring) {
+      alert('Repeating events cannot be moved one occurrence at a time.');
+      return;
+    }
 
     try {
       // Update in database
@@ -284,6 +317,10 @@ export function Calendar() {
       alert('Fixed classes cannot be resized. Only flexible events can be resized.');
       return;
     }
+    if (event.resource.is_recurring) {
+      alert('Repeating events cannot be resized one occurrence at a time.');
+      return;
+    }
 
     try {
       // Update in database
@@ -395,17 +432,21 @@ export function Calendar() {
       return;
     }
     
-    if (!confirm('Are you sure you want to delete this event? This action cannot be undone.')) {
+    const eventId = selectedEvent.resource.event_id ?? selectedEvent.id;
+    const message = selectedEvent.resource.is_recurring
+      ? 'Delete this event and all of its repeats? This action cannot be undone.'
+      : 'Are you sure you want to delete this event? This action cannot be undone.';
+    if (!confirm(message)) {
       return;
     }
     
     try {
-      console.log('Attempting to delete event:', selectedEvent.id, 'for user:', user.id);
+      console.log('Attempting to delete event:', eventId, 'for user:', user.id);
       
       const { data, error } = await supabase
         .from('events')
         .delete()
-        .eq('id', selectedEvent.id)
+        .eq('id', eventId)
         .eq('user_id', user.id)
         .select();
       
@@ -568,6 +609,15 @@ export function Calendar() {
               >
                 📅 Apple
               </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => navigate('/subscribe')} 
+                className="bg-white border-gray-300 hover:bg-gray-50"
+                style={{ height: '44px', fontSize: '13px' }}
+                title="Subscribe so your calendar app stays up to date"
+              >
+                🔗 Subscribe
+              </Button>
             </div>
           </div>
         </div>
@@ -659,7 +709,7 @@ export function Calendar() {
             onEventResize={handleEventResize}
             onSelectEvent={handleSelectEvent}
             resizable
-            draggableAccessor={(event: ClassEvent) => !event.resource.is_fixed}
+            draggableAccessor={(event: ClassEvent) => !event.resource.is_fixed && !event.resource.is_recurring}
           />
           </div>
         </div>
@@ -811,12 +861,38 @@ export function Calendar() {
                         <p className="text-base text-gray-900">{selectedEvent.resource.section}</p>
                       </div>
                     )}
+                    {selectedEvent.resource.crn && (
+                      <div>
+                        <p className="text-sm text-gray-500 mb-1">CRN</p>
+                        <p className="text-base text-gray-900">{selectedEvent.resource.crn}</p>
+                      </div>
+                    )}
+                    {selectedEvent.resource.meeting_type && (
+                      <div>
+                        <p className="text-sm text-gray-500 mb-1">Meeting Type</p>
+                        <p className="text-base text-gray-900 capitalize">{selectedEvent.resource.meeting_type}</p>
+                      </div>
+                    )}
+                    {selectedEvent.resource.credits !== null && selectedEvent.resource.credits !== undefined && (
+                      <div>
+                        <p className="text-sm text-gray-500 mb-1">Credits</p>
+                        <p className="text-base text-gray-900">{Number(selectedEvent.resource.credits)}</p>
+                      </div>
+                    )}
                     {selectedEvent.resource.instructor && (
                       <div>
                         <p className="text-sm text-gray-500 mb-1">Instructor</p>
                         <p className="text-base text-gray-900">{selectedEvent.resource.instructor}</p>
                       </div>
                     )}
+                    {selectedEvent.resource.term_start && selectedEvent.resource.term_end && (
+                      <div>
+                        <p className="text-sm text-gray-500 mb-1">Term</p>
+                        <p className="text-base text-gray-900">
+                          {format(parseISO(selectedEvent.resource.term_start), 'MMM d, yyyy')} - {format(parseISO(selectedEvent.resource.term_end), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                    )}
                   </>
                 )}
 
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { format, parseISO } from 'date-fns'
+import { Check, Copy, Link2, Trash2 } from 'lucide-react'
+import { getExtractionServerUrl } from '@/services/extractionJobs'
+import {
+  calendarFeedUrls,
+  createCalendarFeed,
+  loadCalendarFeeds,
+  revokeCalendarFeed,
+  type CalendarFeed
+} from '@/services/calendarFeeds'
+
+const formatTimestamp = (value: string) => format(parseISO(value), 'MMM d, yyyy h:mm a')
+
+export function CalendarFeeds() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([])
+  const [name, setName] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  // Feeds are served by the same server that runs extraction
+  const serverUrl = getExtractionServerUrl()
+
+  useEffect(() => {
+    loadFeeds()
+  }, [user])
+
+  const loadFeeds = async () => {
+    if (!user) return
+
+    try {
+      setFeeds(await loadCalendarFeeds(supabase, user.id))
+    } catch {
+      setError('Could not load your subscription links')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!user) return
+
+    try {
+      setCreating(true)
+      setError('')
+      // Classes in the feed keep the times the calendar shows in this browser
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const feed = await createCalendarFeed(supabase, user.id, name.trim() || 'My calendar', timeZone)
+      setFeeds([feed, ...feeds])
+      setName('')
+    } catch {
+      setError('Failed to create a subscription link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleCopy = async (feed: CalendarFeed, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopiedId(feed.id)
+      setTimeout(() => setCopiedId(current => (current === feed.id ? null : current)), 2000)
+    } catch {
+      alert('Could not copy the link. Select it and copy it instead.')
+    }
+  }
+
+  const handleRevoke = async (feed: CalendarFeed) => {
+    if (!confirm(`Revoke "${feed.name}"? Calendars subscribed with this link will stop updating and may remove your classes.`)) return
+
+    try {
+      await revokeCalendarFeed(supabase, feed.id)
+      setFeeds(feeds.filter(f => f.id !== feed.id))
+    } catch {
+      alert('Failed to revoke link')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading subscription links...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Calendar Subscriptions</h1>
+            <p className="text-gray-600">
+              Subscribe once and your calendar app keeps up with changes here, without re-importing.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/calendar')}>
+            Back to Calendar
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {!serverUrl ? (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <p className="text-sm text-yellow-800">
+              Subscription links are served by the app server. Set VITE_EXTRACTION_SERVER_URL to use them, or use
+              the one-off export on the calendar page.
+            </p>
+          </div>
+        ) : (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>New Subscription Link</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Phone, Google Calendar..."
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Only for you, to tell your links apart. Use one link per app so you can revoke each on its own.
+                </p>
+              </div>
+              <Button onClick={handleCreate} disabled={creating}>
+                <Link2 className="h-4 w-4 mr-2" />
+                {creating ? 'Creating...' : 'Create Link'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="mb-6 text-sm text-gray-600 space-y-1">
+          <p><strong>Google Calendar:</strong> Other calendars, +, From URL, then paste the link.</p>
+          <p><strong>Outlook:</strong> Add calendar, Subscribe from web, then paste the link.</p>
+          <p><strong>Apple Calendar:</strong> click Subscribe next to the link.</p>
+          <p>
+            Apps refresh subscriptions on their own schedule, from every hour to about a day. Anyone with a link can
+            see your schedule, so revoke any link you've shared by mistake.
+          </p>
+        </div>
+
+        {feeds.length === 0 ? (
+          <p className="text-gray-500">No subscription links yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {feeds.map(feed => {
+              const urls = serverUrl ? calendarFeedUrls(serverUrl, feed.token) : null
+
+              return (
+                <Card key={feed.id}>
+                  <CardContent className="py-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium">{feed.name}</p>
+                        <p className="text-xs text-gray-500">
+                          Created {formatTimestamp(feed.created_at)} ·{' '}
+                          {feed.last_fetched_at
+                            ? `last refreshed ${formatTimestamp(feed.last_fetched_at)}`
+                            : 'not refreshed yet'}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(feed)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50 shrink-0"
+                        title="Revoke link"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {urls && (
+                      <div className="flex items-center gap-2">
+                        <Input value={urls.https} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+                        <Button size="sm" variant="outline" onClick={() => handleCopy(feed, urls.https)} title="Copy link">
+                          {copiedId === feed.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={urls.webcal}>Subscribe</a>
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,32 +5,66 @@ import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
-import { Eye, EyeOff, Trash2, Upload, ChevronDown, ChevronRight, Edit2 } from 'lucide-react'
+import { LOW_CONFIDENCE } from '@/services/extractionProvenance'
+import type { ClassMeeting } from '@/services/pdfProcessor'
+import { loadAcademicTerms, type AcademicTerm } from '@/services/academicTerms'
+import { format, parseISO } from 'date-fns'
+import { Eye, EyeOff, Trash2, Upload, ChevronDown, ChevronRight, Edit2, RefreshCw, FileSpreadsheet, History, CalendarRange } from 'lucide-react'
 
 interface ClassItem {
   id: string
   course_name: string
   course_code: string | null
   section: string | null
+  crn: string | null
+  credits: number | null
+  meeting_type: string | null
   instructor: string | null
   location: string | null
   days: string[]
   start_time: string
   end_time: string
+  extra_meetings: ClassMeeting[] | null
+  term_start: string | null
+  term_end: string | null
+  final_exam_date: string | null
+  final_exam_start: string | null
+  final_exam_end: string | null
   is_hidden: boolean
   track_id: string | null
+  confidence: number | null
+  source_page: number | null
+  source_text: string | null
 }
 
 interface ScheduleTrack {
   id: string
   name: string
   pdf_filename: string | null
+  term_id: string | null
   created_at: string
   classes: ClassItem[]
 }
 
+/**
+ * Credits of the visible classes in a track. A lecture and its lab or discussion
+ * share one section, so each course/section pair is only counted once.
+ */
+function visibleCredits(classes: ClassItem[]) {
+  const credits = new Map<string, number>()
+  for (const cls of classes) {
+    if (cls.is_hidden || cls.credits === null) continue
+    const key = `${cls.course_code ?? cls.course_name}|${cls.section ?? ''}`
+    credits.set(key, Math.max(credits.get(key) ?? 0, Number(cls.credits)))
+  }
+  return [...credits.values()].reduce((sum, value) => sum + value, 0)
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy')
+
 export function ClassCatalog() {
   const [tracks, setTracks] = useState<ScheduleTrack[]>([])
+  const [terms, setTerms] = useState<AcademicTerm[]>([])
   const [expandedTracks, setExpandedTracks] = useState<Set<string>>(new Set())
   const [editingTrack, setEditingTrack] = useState<string | null>(null)
   const [editingName, setEditingName] = useState('')
@@ -65,6 +99,8 @@ export function ClassCatalog() {
 
       if (classesError) throw classesError
 
+      setTerms(await loadAcademicTerms(supabase, user.id))
+
       // Group classes by track
       const tracksWithClasses: ScheduleTrack[] = tracksData.map(track => ({
         ...track,
@@ -78,6 +114,7 @@ export function ClassCatalog() {
           id: 'untracked',
           name: 'Untracked Classes',
           pdf_filename: null,
+          term_id: null,
           created_at: new Date().toISOString(),
           classes: untrackedClasses
         })
@@ -136,6 +173,22 @@ export function ClassCatalog() {
     }
   }
 
+  const setTrackTerm = async (track: ScheduleTrack, termId: string) => {
+    try {
+      const { error } = await supabase
+        .from('schedule_tracks')
+        .update({ term_id: termId || null })
+        .eq('id', track.id)
+
+      if (error) throw error
+
+      setTracks(tracks.map(t => (t.id === track.id ? { ...t, term_id: termId || null } : t)))
+    } catch (err) {
+      console.error('Error updating track term:', err)
+      alert('Failed to change the term')
+    }
+  }
+
   const deleteTrack = async (track: ScheduleTrack) => {
     const confirmMessage = `Delete "${track.name}" and all ${track.classes.length} classes in it? This cannot be undone.`
     if (!confirm(confirmMessage)) return
@@ -287,6 +340,18 @@ export function ClassCatalog() {
               <Upload className="mr-2 h-4 w-4" />
               Upload PDF
             </Button>
+            <Button variant="outline" onClick={() => navigate('/import')} className="bg-white">
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Import CSV / Excel
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/uploads')} className="bg-white">
+              <History className="mr-2 h-4 w-4" />
+              Uploads
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/terms')} className="bg-white">
+              <CalendarRange className="mr-2 h-4 w-4" />
+              Terms
+            </Button>
             <Button onClick={() => navigate('/calendar')} className="bg-black text-white hover:bg-gray-800">
               View Calendar
             </Button>
@@ -300,11 +365,17 @@ export function ClassCatalog() {
                 <Upload className="h-16 w-16 mx-auto text-gray-400" />
               </div>
               <p className="text-gray-600 mb-4 text-lg">No class schedules yet</p>
-              <p className="text-gray-500 mb-6">Upload a PDF to extract your class schedule</p>
-              <Button onClick={() => navigate('/upload')} className="bg-black text-white hover:bg-gray-800">
-                <Upload className="mr-2 h-4 w-4" />
-                Upload PDF Schedule
-              </Button>
+              <p className="text-gray-500 mb-6">Upload a PDF to extract your class schedule, or import a spreadsheet export</p>
+              <div className="flex justify-center gap-3">
+                <Button onClick={() => navigate('/upload')} className="bg-black text-white hover:bg-gray-800">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload PDF Schedule
+                </Button>
+                <Button variant="outline" onClick={() => navigate('/import')}>
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                  Import CSV / Excel
+                </Button>
+              </div>
             </CardContent>
           </Card>
         ) : (
@@ -324,6 +395,7 @@ export function ClassCatalog() {
                 const isExpanded = expandedTracks.has(track.id)
                 const hiddenCount = track.classes.filter(cls => cls.is_hidden).length
                 const visibleCount = track.classes.length - hiddenCount
+                const credits = visibleCredits(track.classes)
 
                 return (
                   <Card key={track.id} className="bg-white border-2">
@@ -376,8 +448,22 @@ export function ClassCatalog() {
                                 {track.classes.length} {track.classes.length === 1 ? 'class' : 'classes'}
                                 {' • '}
                                 {visibleCount} visible, {hiddenCount} hidden
+                                {credits > 0 && ` • ${credits} ${credits === 1 ? 'credit' : 'credits'}`}
                                 {track.pdf_filename && ` • ${track.pdf_filename}`}
                               </p>
+                              {track.id !== 'untracked' && (
+                                <select
+                                  value={track.term_id ?? ''}
+                                  onChange={(e) => setTrackTerm(track, e.target.value)}
+                                  className="mt-2 flex h-8 rounded-md border border-input bg-background px-2 text-sm"
+                                  title="Classes only appear during this term, and not on its holidays and breaks"
+                                >
+                                  <option value="">No term (classes repeat every week)</option>
+                                  {terms.map(term => (
+                                    <option key={term.id} value={term.id}>{term.name}</option>
+                                  ))}
+                                </select>
+                              )}
                             </div>
                           )}
                         </div>
@@ -395,6 +481,17 @@ export function ClassCatalog() {
                               Rename
                             </Button>
                           )}
+                          {track.id !== 'untracked' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/upload?track=${track.id}`)}
+                              title="Upload a revised PDF and review the changes to this schedule"
+                            >
+                              <RefreshCw className="h-4 w-4 mr-1" />
+                              Re-import
+                            </Button>
+                          )}
                           <Button
                             variant="outline"
                             size="sm"
@@ -433,74 +530,135 @@ export function ClassCatalog() {
                     {isExpanded && (
                       <div className="p-5">
                         <div className="space-y-3">
-                          {track.classes.map((cls) => (
-                            <div
-                              key={cls.id}
-                              className={`p-4 border rounded-lg ${cls.is_hidden ? 'opacity-50 bg-gray-50' : 'bg-white'}`}
-                            >
-                              <div className="flex justify-between items-start">
-                                <div className="flex-1">
-                                  <div className="flex items-center gap-3 mb-2">
-                                    <h3 className="text-base font-semibold">{cls.course_name}</h3>
-                                    {cls.course_code && (
-                                      <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
-                                        {cls.course_code}
-                                      </span>
-                                    )}
-                                    {cls.is_hidden && (
-                                      <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded">
-                                        Hidden
-                                      </span>
-                                    )}
-                                  </div>
-                                  
-                                  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600">
-                                    {cls.section && (
+                          {track.classes.map((cls) => {
+                            const lowConfidence = cls.confidence !== null && cls.confidence < LOW_CONFIDENCE
+
+                            return (
+                              <div
+                                key={cls.id}
+                                className={`p-4 border rounded-lg ${cls.is_hidden ? 'opacity-50 bg-gray-50' : 'bg-white'}`}
+                              >
+                                <div className="flex justify-between items-start">
+                                  <div className="flex-1">
+                                    <div className="flex items-center gap-3 mb-2">
+                                      <h3 className="text-base font-semibold">{cls.course_name}</h3>
+                                      {cls.course_code && (
+                                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded">
+                                          {cls.course_code}
+                                        </span>
+                                      )}
+                                      {cls.meeting_type && (
+                                        <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded capitalize">
+                                          {cls.meeting_type}
+                                        </span>
+                                      )}
+                                      {cls.is_hidden && (
+                                        <span className="text-xs bg-gray-200 text-gray-600 px-2 py-1 rounded">
+                                          Hidden
+                                        </span>
+                                      )}
+                                      {lowConfidence && (
+                                        <span
+                                          className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded"
+                                          title="The PDF text only partly matches these details. Check them against the source below."
+                                        >
+                                          Low confidence ({Math.round((cls.confidence ?? 0) * 100)}%)
+                                        </span>
+                                      )}
+                                    </div>
+                                    
+                                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600">
+                                      {cls.section && (
+                                        <div>
+                                          <span className="font-medium">Section:</span> {cls.section}
+                                        </div>
+                                      )}
+                                      {cls.crn && (
+                                        <div>
+                                          <span className="font-medium">CRN:</span> {cls.crn}
+                                        </div>
+                                      )}
+                                      {cls.credits !== null && (
+                                        <div>
+                                          <span className="font-medium">Credits:</span> {Number(cls.credits)}
+                                        </div>
+                                      )}
+                                      {cls.instructor && (
+                                        <div>
+                                          <span className="font-medium">Instructor:</span> {cls.instructor}
+                                        </div>
+                                      )}
                                       <div>
-                                        <span className="font-medium">Section:</span> {cls.section}
+                                        <span className="font-medium">Days:</span> {cls.days.join(', ')}
                                       </div>
-                                    )}
-                                    {cls.instructor && (
                                       <div>
-                                        <span className="font-medium">Instructor:</span> {cls.instructor}
+                                        <span className="font-medium">Time:</span>{' '}
+                                        {formatTime(cls.start_time)} - {formatTime(cls.end_time)}
                                       </div>
-                                    )}
-                                    <div>
-                                      <span className="font-medium">Days:</span> {cls.days.join(', ')}
+                                      {cls.location && (
+                                        <div>
+                                          <span className="font-medium">Location:</span> {cls.location}
+                                        </div>
+                                      )}
+                                      {cls.extra_meetings?.map((meeting, index) => (
+                                        <div key={index} className="col-span-2">
+                                          <span className="font-medium capitalize">{meeting.meeting_type ?? 'Also meets'}:</span>{' '}
+                                          {meeting.days.join(', ')} {formatTime(meeting.start_time)} - {formatTime(meeting.end_time)}
+                                          {meeting.location && ` • ${meeting.location}`}
+                                        </div>
+                                      ))}
+                                      {(cls.term_start || cls.term_end) && (
+                                        <div>
+                                          <span className="font-medium">Term:</span>{' '}
+                                          {cls.term_start ? formatDate(cls.term_start) : '?'} - {cls.term_end ? formatDate(cls.term_end) : '?'}
+                                        </div>
+                                      )}
+                                      {cls.final_exam_date && (
+                                        <div>
+                                          <span className="font-medium">Final Exam:</span>{' '}
+                                          {formatDate(cls.final_exam_date)}
+                                          {cls.final_exam_start && `, ${formatTime(cls.final_exam_start)}`}
+                                          {cls.final_exam_end && ` - ${formatTime(cls.final_exam_end)}`}
+                                        </div>
+                                      )}
                                     </div>
-                                    <div>
-                                      <span className="font-medium">Time:</span>{' '}
-                                      {formatTime(cls.start_time)} - {formatTime(cls.end_time)}
-                                    </div>
-                                    {cls.location && (
-                                      <div>
-                                        <span className="font-medium">Location:</span> {cls.location}
-                                      </div>
+
+                                    {lowConfidence && (
+                                      <p className="mt-2 text-xs text-gray-600">
+                                        {cls.source_text ? (
+                                          <>
+                                            <span className="font-medium">From page {cls.source_page}:</span>{' '}
+                                            <span className="font-mono whitespace-pre-wrap">{cls.source_text.replace(/\t/g, '  ')}</span>
+                                          </>
+                                        ) : (
+                                          'Not found in the PDF text'
+                                        )}
+                                      </p>
                                     )}
                                   </div>
-                                </div>
 
-                                <div className="flex gap-2">
-                                  <Button
-                                    variant="outline"
-                                    size="icon"
-                                    onClick={() => toggleVisibility(cls.id, cls.is_hidden)}
-                                    title={cls.is_hidden ? 'Show in calendar' : 'Hide from calendar'}
-                                  >
-                                    {cls.is_hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                                  </Button>
-                                  <Button
-                                    variant="outline"
-                                    size="icon"
-                                    onClick={() => deleteClass(cls.id)}
-                                    title="Delete class"
-                                  >
-                                    <Trash2 className="h-4 w-4 text-red-500" />
-                                  </Button>
+                                  <div className="flex gap-2">
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => toggleVisibility(cls.id, cls.is_hidden)}
+                                      title={cls.is_hidden ? 'Show in calendar' : 'Hide from calendar'}
+                                    >
+                                      {cls.is_hidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                    </Button>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      onClick={() => deleteClass(cls.id)}
+                                      title="Delete class"
+                                    >
+                                      <Trash2 className="h-4 w-4 text-red-500" />
+                                    </Button>
+                                  </div>
                                 </div>
                               </div>
-                            </div>
-                          ))}
+                            )
+                          })}
                         </div>
                       </div>
                     )}
@@ -0,0 +1,434 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, FileSpreadsheet, Loader2, Plus } from 'lucide-react'
+import { ClassReviewTable, type ReviewRow } from '@/components/ClassReviewTable'
+import { saveExtractedClasses } from '@/services/classCatalog'
+import { validateExtractedClass, validateExtractedClasses, type ClassValidationIssue } from '@/services/classValidation'
+import { groupSectionMeetings } from '@/services/sectionMeetings'
+import { parseScheduleText } from '@/services/scheduleParser'
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  looksLikeHeader,
+  mapTableRows,
+  missingRequiredFields,
+  parsePastedTable,
+  readTableFile,
+  type ColumnMapping,
+  type ImportField,
+  type ImportTable,
+} from '@/services/tableImport'
+
+interface TrackOption {
+  id: string
+  name: string
+}
+
+type Step = 'source' | 'map' | 'review'
+
+const NEW_TRACK = 'new'
+const PREVIEW_ROWS = 5
+
+/**
+ * Import classes from a CSV/XLSX export or text pasted from a registrar page:
+ * pick a source, map its columns to class fields, then review and save.
+ */
+export function ImportClasses() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [step, setStep] = useState<Step>('source')
+  const [sourceName, setSourceName] = useState('')
+  const [pastedText, setPastedText] = useState('')
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [rows, setRows] = useState<ReviewRow[]>([])
+  const [skippedIssues, setSkippedIssues] = useState<ClassValidationIssue[]>([])
+  const [tracks, setTracks] = useState<TrackOption[]>([])
+  const [trackChoice, setTrackChoice] = useState(NEW_TRACK)
+  const [trackName, setTrackName] = useState('')
+  const [reading, setReading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadTracks()
+  }, [user])
+
+  const loadTracks = async () => {
+    if (!user) return
+
+    const { data, error: tracksError } = await supabase
+      .from('schedule_tracks')
+      .select('id, name')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (tracksError) {
+      console.error('Error loading schedules:', tracksError)
+      return
+    }
+    setTracks(data)
+  }
+
+  const startMapping = (cells: string[][], name: string) => {
+    if (cells.length === 0) {
+      setError('No rows found in that file')
+      return
+    }
+
+    const hasHeader = looksLikeHeader(cells[0])
+    setTable({ rows: cells, hasHeader })
+    setMapping(hasHeader ? guessColumnMapping(cells[0]) : {})
+    setSourceName(name)
+    setTrackName(name)
+    setStep('map')
+  }
+
+  const startReview = (classes: unknown[], name: string) => {
+    const { classes: valid, issues } = validateExtractedClasses(classes)
+    // Spreadsheets list lectures and labs as separate rows, same as PDFs
+    const sections = groupSectionMeetings(valid)
+
+    if (sections.length === 0) {
+      setError(`None of the ${classes.length} rows could be read as classes. Check the column mapping.`)
+      return
+    }
+
+    setRows(sections.map(cls => ({ ...cls, id: crypto.randomUUID() })))
+    setSkippedIssues(issues.filter(issue => issue.severity === 'error'))
+    setTrackName(trackName || name)
+    setStep('review')
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      setReading(true)
+      setError('')
+      startMapping(await readTableFile(file), file.name.replace(/\.[^.]+$/, ''))
+    } catch (err) {
+      console.error('Error reading file:', err)
+      setError(err instanceof Error ? err.message : 'Could not read that file')
+    } finally {
+      setReading(false)
+      e.target.value = ''
+    }
+  }
+
+  const handlePaste = () => {
+    if (!pastedText.trim()) {
+      setError('Paste your schedule first')
+      return
+    }
+
+    setError('')
+    const cells = parsePastedTable(pastedText)
+    if (cells) {
+      startMapping(cells, 'Pasted schedule')
+    } else {
+      // Plain lines with no columns: let the schedule parser find the classes
+      setTable(null)
+      startReview(parseScheduleText(pastedText).classes, 'Pasted schedule')
+    }
+  }
+
+  const setColumnField = (column: number, field: ImportField | '') => {
+    const next: ColumnMapping = {}
+    for (const [index, mapped] of Object.entries(mapping)) {
+      // A field can only come from one column
+      if (Number(index) !== column && mapped !== field) next[Number(index)] = mapped
+    }
+    if (field) next[column] = field
+    setMapping(next)
+  }
+
+  const toggleHeader = () => {
+    if (!table) return
+    const hasHeader = !table.hasHeader
+    setTable({ ...table, hasHeader })
+    if (hasHeader && Object.keys(mapping).length === 0) {
+      setMapping(guessColumnMapping(table.rows[0]))
+    }
+  }
+
+  const addRow = () => {
+    setRows([
+      ...rows,
+      {
+        id: crypto.randomUUID(),
+        course_name: '',
+        days: [],
+        start_time: '',
+        end_time: ''
+      }
+    ])
+  }
+
+  const validRows = rows.flatMap((row, index) => {
+    const { value } = validateExtractedClass(row, index)
+    return value ? [value] : []
+  })
+
+  const handleSave = async () => {
+    if (!user) return
+
+    const invalidCount = rows.length - validRows.length
+    if (invalidCount > 0) {
+      setError(`Fix the ${invalidCount} highlighted ${invalidCount === 1 ? 'row' : 'rows'} or remove them before saving`)
+      return
+    }
+    if (trackChoice === NEW_TRACK && !trackName.trim()) {
+      setError('Give the new schedule a name')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+      await saveExtractedClasses(
+        supabase,
+        user.id,
+        validRows,
+        trackChoice === NEW_TRACK ? { name: trackName.trim() } : { trackId: trackChoice }
+      )
+      navigate('/catalog')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save classes')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const columnCount = table ? Math.max(...table.rows.map(cells => cells.length)) : 0
+  const missingFields = missingRequiredFields(mapping)
+
+  return (
+    <div className="min-h-screen bg-[#F3F0E9] p-8">
+      <div className={step === 'review' ? 'max-w-7xl mx-auto' : 'max-w-5xl mx-auto'}>
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 text-gray-900">Import Classes</h1>
+          <p className="text-gray-600">
+            {step === 'source' && 'Import a spreadsheet export (CSV or Excel) or paste your schedule from the registrar site'}
+            {step === 'map' && `Match the columns in ${sourceName} to class details`}
+            {step === 'review' && `${rows.length} ${rows.length === 1 ? 'class' : 'classes'} ready to save`}
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        {step === 'source' && (
+          <div className="grid grid-cols-2 gap-6">
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Spreadsheet</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <label className="flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-gray-50">
+                  {reading ? (
+                    <Loader2 className="h-10 w-10 text-gray-400 animate-spin mb-3" />
+                  ) : (
+                    <FileSpreadsheet className="h-10 w-10 text-gray-400 mb-3" />
+                  )}
+                  <span className="text-sm text-gray-600">{reading ? 'Reading file...' : 'Choose a .csv or .xlsx file'}</span>
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt,.xlsx"
+                    onChange={handleFileChange}
+                    disabled={reading}
+                    className="hidden"
+                  />
+                </label>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white">
+              <CardHeader>
+                <CardTitle>Paste From a Web Page</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <textarea
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  placeholder={'CS 101\t001\tIntro to Programming\tMW\t9:00 AM - 10:15 AM\tSCI 204'}
+                  className="w-full h-40 rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+                />
+                <Button onClick={handlePaste} className="mt-3 bg-black text-white hover:bg-gray-800">
+                  Continue
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {step === 'map' && table && (
+          <Card className="bg-white mb-6">
+            <CardContent className="pt-6">
+              <label className="flex items-center gap-2 text-sm mb-4">
+                <input type="checkbox" checked={table.hasHeader} onChange={toggleHeader} />
+                First row is a header
+              </label>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      {Array.from({ length: columnCount }, (_, column) => (
+                        <th key={column} className="py-2 pr-2 text-left align-top">
+                          <select
+                            value={mapping[column] ?? ''}
+                            onChange={(e) => setColumnField(column, e.target.value as ImportField | '')}
+                            className="h-8 w-44 rounded-md border border-input bg-background px-2 text-sm font-normal"
+                          >
+                            <option value="">Skip</option>
+                            {IMPORT_FIELDS.map(({ field, label }) => (
+                              <option key={field} value={field}>{label}</option>
+                            ))}
+                          </select>
+                          {table.hasHeader && (
+                            <p className="mt-1 text-xs text-gray-500 font-medium">{table.rows[0][column]}</p>
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(table.hasHeader ? 1 : 0, (table.hasHeader ? 1 : 0) + PREVIEW_ROWS).map((cells, index) => (
+                      <tr key={index} className="border-b text-gray-700">
+                        {Array.from({ length: columnCount }, (_, column) => (
+                          <td key={column} className={`py-2 pr-2 ${mapping[column] ? '' : 'text-gray-400'}`}>
+                            {cells[column]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Showing {Math.min(PREVIEW_ROWS, table.rows.length - (table.hasHeader ? 1 : 0))} of {table.rows.length - (table.hasHeader ? 1 : 0)} rows
+              </p>
+
+              {missingFields.length > 0 && (
+                <div className="mt-4 flex items-center gap-2 text-sm text-amber-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  Still needed: {missingFields.join(', ')}
+                </div>
+              )}
+
+              <div className="flex gap-4 mt-6">
+                <Button
+                  onClick={() => startReview(mapTableRows(table, mapping), sourceName)}
+                  disabled={missingFields.length > 0}
+                  className="bg-black text-white hover:bg-gray-800"
+                >
+                  Preview Classes
+                </Button>
+                <Button variant="outline" onClick={() => setStep('source')}>
+                  Back
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'review' && (
+          <>
+            {skippedIssues.length > 0 && (
+              <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                <div className="flex items-center gap-2 mb-2">
+                  <AlertTriangle className="h-5 w-5 text-amber-600" />
+                  <p className="text-sm font-medium text-amber-800">
+                    Some rows couldn't be read and were left out. Add them below if they're real classes.
+                  </p>
+                </div>
+                <ul className="text-sm text-amber-700 space-y-1 max-h-40 overflow-y-auto">
+                  {skippedIssues.map((issue, idx) => (
+                    <li key={idx}>
+                      <span className="font-medium">Row {issue.row + 1}</span>
+                      {issue.field !== 'row' && ` · ${issue.field}`}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <Card className="bg-white mb-6">
+              <CardHeader>
+                <CardTitle>Save To</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-4 max-w-2xl">
+                  <div>
+                    <Label>Schedule</Label>
+                    <select
+                      value={trackChoice}
+                      onChange={(e) => setTrackChoice(e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    >
+                      <option value={NEW_TRACK}>New schedule</option>
+                      {tracks.length > 0 && (
+                        <optgroup label="Add to an existing schedule">
+                          {tracks.map(track => (
+                            <option key={track.id} value={track.id}>
+                              {track.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </div>
+                  {trackChoice === NEW_TRACK && (
+                    <div>
+                      <Label>Schedule Name</Label>
+                      <Input
+                        value={trackName}
+                        onChange={(e) => setTrackName(e.target.value)}
+                        placeholder="Fall 2025 - Option A"
+                      />
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white mb-6">
+              <CardContent className="pt-6">
+                <ClassReviewTable rows={rows} onChange={setRows} />
+                <Button onClick={addRow} variant="outline" className="mt-4">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Class
+                </Button>
+              </CardContent>
+            </Card>
+
+            <div className="flex gap-4">
+              <Button
+                onClick={handleSave}
+                disabled={saving || rows.length === 0}
+                className="bg-black text-white hover:bg-gray-800"
+              >
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {saving ? 'Saving...' : `Save ${rows.length} Class(es)`}
+              </Button>
+              <Button variant="outline" onClick={() => setStep(table ? 'map' : 'source')} className="bg-white">
+                Back
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
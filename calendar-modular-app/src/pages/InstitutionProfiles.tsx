@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Edit2, Plus, Trash2, X } from 'lucide-react'
+import {
+  PROFILE_COLUMNS,
+  formatDayAbbreviations,
+  parseDayAbbreviations,
+  type InstitutionProfile,
+  type ProfileColumn,
+  type TimeFormat
+} from '@/services/institutionProfiles'
+
+interface ProfileForm {
+  id?: string
+  name: string
+  prompt_hints: string
+  day_abbreviations: string
+  time_format: TimeFormat | ''
+  column_order: ProfileColumn[]
+  term_start: string
+  term_end: string
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  prompt_hints: '',
+  day_abbreviations: '',
+  time_format: '',
+  column_order: [],
+  term_start: '',
+  term_end: ''
+}
+
+const columnLabel = (column: ProfileColumn) =>
+  PROFILE_COLUMNS.find(entry => entry.column === column)?.label ?? column
+
+export function InstitutionProfiles() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [profiles, setProfiles] = useState<InstitutionProfile[]>([])
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadProfiles()
+  }, [user])
+
+  const loadProfiles = async () => {
+    try {
+      const { data, error: profilesError } = await supabase
+        .from('institution_profiles')
+        .select('*')
+        .order('name')
+
+      if (profilesError) throw profilesError
+      setProfiles(data)
+    } catch (err) {
+      console.error('Error loading institution profiles:', err)
+      setError('Could not load institution profiles')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editProfile = (profile: InstitutionProfile) => {
+    setError('')
+    setForm({
+      id: profile.id,
+      name: profile.name,
+      prompt_hints: profile.prompt_hints ?? '',
+      day_abbreviations: formatDayAbbreviations(profile.day_abbreviations),
+      time_format: profile.time_format ?? '',
+      column_order: profile.column_order ?? [],
+      term_start: profile.term_start ?? '',
+      term_end: profile.term_end ?? ''
+    })
+  }
+
+  const toggleColumn = (column: ProfileColumn) => {
+    if (!form) return
+    setForm({
+      ...form,
+      column_order: form.column_order.includes(column)
+        ? form.column_order.filter(c => c !== column)
+        : [...form.column_order, column]
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form || !user) return
+
+    const { value: dayAbbreviations, invalid } = parseDayAbbreviations(form.day_abbreviations)
+    if (!form.name.trim()) {
+      setError('Give the profile a name, e.g. the school')
+      return
+    }
+    if (invalid.length > 0) {
+      setError(`Couldn't read these day abbreviations: ${invalid.join(', ')}. Write them like "Th=R".`)
+      return
+    }
+    if (form.term_start && form.term_end && form.term_end < form.term_start) {
+      setError('Term end must be after term start')
+      return
+    }
+
+    const row = {
+      name: form.name.trim(),
+      prompt_hints: form.prompt_hints.trim() || null,
+      day_abbreviations: dayAbbreviations,
+      time_format: form.time_format || null,
+      column_order: form.column_order,
+      term_start: form.term_start || null,
+      term_end: form.term_end || null
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+
+      const { error: saveError } = form.id
+        ? await supabase.from('institution_profiles').update(row).eq('id', form.id)
+        : await supabase.from('institution_profiles').insert({ ...row, created_by: user.id })
+
+      if (saveError) throw saveError
+
+      setForm(null)
+      await loadProfiles()
+    } catch (err) {
+      console.error('Error saving institution profile:', err)
+      setError('Failed to save the profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteProfile = async (profile: InstitutionProfile) => {
+    if (!confirm(`Delete the "${profile.name}" profile? Uploads that used it keep their classes.`)) return
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('institution_profiles')
+        .delete()
+        .eq('id', profile.id)
+
+      if (deleteError) throw deleteError
+      setProfiles(profiles.filter(p => p.id !== profile.id))
+    } catch (err) {
+      console.error('Error deleting institution profile:', err)
+      alert('Failed to delete profile')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading profiles...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Institution Profiles</h1>
+            <p className="text-gray-600">
+              Tell the extractor how your school prints schedules. Profiles are shared with everyone at the school.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/upload')}>
+            Back to Upload
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {form ? (
+          <Card className="mb-6">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{form.id ? 'Edit Profile' : 'New Profile'}</CardTitle>
+              <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                <X className="h-5 w-5" />
+              </button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Name *</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="State University (Banner)"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Day Abbreviations</Label>
+                  <Input
+                    value={form.day_abbreviations}
+                    onChange={(e) => setForm({ ...form, day_abbreviations: e.target.value })}
+                    placeholder="Th=R, H=R, Sa=S"
+                  />
+                </div>
+                <div>
+                  <Label>Time Format</Label>
+                  <select
+                    value={form.time_format}
+                    onChange={(e) => setForm({ ...form, time_format: e.target.value as TimeFormat | '' })}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">Detect from the PDF</option>
+                    <option value="12h">12-hour (9:00 AM)</option>
+                    <option value="24h">24-hour (13:30)</option>
+                  </select>
+                </div>
+                <div>
+                  <Label>Term Start</Label>
+                  <Input
+                    type="date"
+                    value={form.term_start}
+                    onChange={(e) => setForm({ ...form, term_start: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Term End</Label>
+                  <Input
+                    type="date"
+                    value={form.term_end}
+                    onChange={(e) => setForm({ ...form, term_end: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Column Order</Label>
+                <p className="text-xs text-gray-500 mb-2">Click the columns in the order they appear on your schedule.</p>
+                <div className="flex flex-wrap gap-2">
+                  {PROFILE_COLUMNS.map(({ column, label }) => {
+                    const position = form.column_order.indexOf(column)
+                    return (
+                      <button
+                        key={column}
+                        onClick={() => toggleColumn(column)}
+                        className={`px-3 py-1 rounded text-sm ${
+                          position >= 0 ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+                        }`}
+                      >
+                        {position >= 0 && `${position + 1}. `}{label}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div>
+                <Label>Notes for the Extractor</Label>
+                <textarea
+                  value={form.prompt_hints}
+                  onChange={(e) => setForm({ ...form, prompt_hints: e.target.value })}
+                  rows={4}
+                  placeholder={'e.g. "Rows marked WEB are online and have no meeting time."'}
+                  className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Profile'}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Button onClick={() => setForm(EMPTY_FORM)} variant="outline" className="mb-6">
+            <Plus className="h-4 w-4 mr-2" />
+            New Profile
+          </Button>
+        )}
+
+        {profiles.length === 0 ? (
+          <p className="text-gray-500">No profiles yet. Create one for your school so its PDFs are read consistently.</p>
+        ) : (
+          <div className="space-y-3">
+            {profiles.map(profile => (
+              <Card key={profile.id}>
+                <CardContent className="py-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">{profile.name}</p>
+                    <p className="text-sm text-gray-600">
+                      {[
+                        profile.time_format && `${profile.time_format === '24h' ? '24-hour' : '12-hour'} times`,
+                        Object.keys(profile.day_abbreviations ?? {}).length > 0 && `Days: ${formatDayAbbreviations(profile.day_abbreviations)}`,
+                        profile.term_start && profile.term_end && `Term ${profile.term_start} to ${profile.term_end}`
+                      ].filter(Boolean).join(' • ') || 'No conventions set'}
+                    </p>
+                    {profile.column_order && profile.column_order.length > 0 && (
+                      <p className="text-xs text-gray-500">Columns: {profile.column_order.map(columnLabel).join(', ')}</p>
+                    )}
+                  </div>
+                  {profile.created_by === user?.id && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button size="sm" variant="outline" onClick={() => editProfile(profile)} title="Edit profile">
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => deleteProfile(profile)}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        title="Delete profile"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
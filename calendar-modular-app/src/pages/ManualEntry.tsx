@@ -7,17 +7,26 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
 import { Plus, Trash2 } from 'lucide-react';
+import { MEETING_TYPES } from '@/services/classValidation';
 
 interface ClassEntry {
   id: string;
   course_name: string;
   course_code: string;
   section: string;
+  crn: string;
+  credits: string;
+  meeting_type: string;
   instructor: string;
   location: string;
   days: string[];
   start_time: string;
   end_time: string;
+  term_start: string;
+  term_end: string;
+  final_exam_date: string;
+  final_exam_start: string;
+  final_exam_end: string;
 }
 
 export function ManualEntry() {
@@ -35,11 +44,19 @@ export function ManualEntry() {
         course_name: '',
         course_code: '',
         section: '',
+        crn: '',
+        credits: '',
+        meeting_type: '',
         instructor: '',
         location: '',
         days: [],
         start_time: '',
-        end_time: ''
+        end_time: '',
+        term_start: '',
+        term_end: '',
+        final_exam_date: '',
+        final_exam_start: '',
+        final_exam_end: ''
       }
     ]);
   };
@@ -94,6 +111,15 @@ export function ManualEntry() {
         if (!c.end_time) {
           throw new Error(`Class ${i + 1}: End time is required`);
         }
+        if (c.credits && isNaN(Number(c.credits))) {
+          throw new Error(`Class ${i + 1}: Credits must be a number`);
+        }
+        if (c.term_start && c.term_end && c.term_end < c.term_start) {
+          throw new Error(`Class ${i + 1}: Term end must be after term start`);
+        }
+        if ((c.final_exam_start || c.final_exam_end) && !c.final_exam_date) {
+          throw new Error(`Class ${i + 1}: Final exam date is required when an exam time is set`);
+        }
       }
 
       const classesToInsert = classes.map(c => ({
@@ -101,11 +127,19 @@ export function ManualEntry() {
         course_name: c.course_name,
         course_code: c.course_code || null,
         section: c.section || null,
+        crn: c.crn || null,
+        credits: c.credits ? Number(c.credits) : null,
+        meeting_type: c.meeting_type || null,
         instructor: c.instructor || null,
         location: c.location || null,
         days: c.days,
         start_time: c.start_time + ':00', // Add seconds
         end_time: c.end_time + ':00', // Add seconds
+        term_start: c.term_start || null,
+        term_end: c.term_end || null,
+        final_exam_date: c.final_exam_date || null,
+        final_exam_start: c.final_exam_start ? c.final_exam_start + ':00' : null,
+        final_exam_end: c.final_exam_end ? c.final_exam_end + ':00' : null,
         is_hidden: false
       }));
 
@@ -170,6 +204,38 @@ export function ManualEntry() {
                       placeholder="001"
                     />
                   </div>
+                  <div>
+                    <Label>CRN</Label>
+                    <Input
+                      value={classEntry.crn}
+                      onChange={(e) => updateClass(classEntry.id, 'crn', e.target.value)}
+                      placeholder="12345"
+                    />
+                  </div>
+                  <div>
+                    <Label>Credits</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={classEntry.credits}
+                      onChange={(e) => updateClass(classEntry.id, 'credits', e.target.value)}
+                      placeholder="3"
+                    />
+                  </div>
+                  <div>
+                    <Label>Meeting Type</Label>
+                    <select
+                      value={classEntry.meeting_type}
+                      onChange={(e) => updateClass(classEntry.id, 'meeting_type', e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm capitalize"
+                    >
+                      <option value="">Not specified</option>
+                      {MEETING_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div>
                     <Label>Instructor</Label>
                     <Input
@@ -228,6 +294,50 @@ export function ManualEntry() {
                       }}
                     />
                   </div>
+                  <div>
+                    <Label>Term Start</Label>
+                    <Input
+                      type="date"
+                      value={classEntry.term_start}
+                      onChange={(e) => updateClass(classEntry.id, 'term_start', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label>Term End</Label>
+                    <Input
+                      type="date"
+                      value={classEntry.term_end}
+                      onChange={(e) => updateClass(classEntry.id, 'term_end', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label>Final Exam Date</Label>
+                    <Input
+                      type="date"
+                      value={classEntry.final_exam_date}
+                      onChange={(e) => updateClass(classEntry.id, 'final_exam_date', e.target.value)}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label>Exam Start</Label>
+                      <Input
+                        type="text"
+                        placeholder="08:00"
+                        value={classEntry.final_exam_start}
+                        onChange={(e) => updateClass(classEntry.id, 'final_exam_start', e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label>Exam End</Label>
+                      <Input
+                        type="text"
+                        placeholder="10:00"
+                        value={classEntry.final_exam_end}
+                        onChange={(e) => updateClass(classEntry.id, 'final_exam_end', e.target.value)}
+                      />
+                    </div>
+                  </div>
                 </div>
                 <Button
                   variant="destructive"
@@ -1,94 +1,350 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
-import { Upload, FileText, Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Upload, FileText, Loader2, RotateCcw, X, CheckCircle2, AlertCircle } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
 import { useAuth } from '@/contexts/AuthContext'
-import { processPDF } from '@/services/pdfProcessor'
+import { defaultTrackName } from '@/services/classCatalog'
+import { getExtractionServerUrl, runUploadJob } from '@/services/extractionJobs'
+import { sha256Hex } from '@/services/extractionCache'
+import { canRetry, isStalled, type UploadJob } from '@/services/uploadJobs'
+import type { InstitutionProfile } from '@/services/institutionProfiles'
+import { ExtractionCancelledError, type ExtractionProgress } from '@/services/extractionProgress'
+
+const JOB_POLL_INTERVAL_MS = 3000
+
+const STATUS_LABELS: Record<UploadJob['processing_status'], string> = {
+  pending: 'Waiting to start',
+  processing: 'Processing',
+  review: 'Ready to review',
+  completed: 'Saved',
+  failed: 'Failed'
+}
+
+// One selected PDF and how far it has got through the queue
+interface QueuedFile {
+  id: string
+  file: File
+  status: 'queued' | 'uploading' | 'processing' | 'review' | 'failed'
+  uploadId?: string
+  error?: string
+}
+
+function formatStep(timestamp: string | null) {
+  return timestamp ? format(parseISO(timestamp), 'MMM d, h:mm a') : null
+}
+
+// The pipeline steps shown while a PDF is extracted; OCR counts as reading
+const EXTRACTION_STEPS: Array<{ step: ExtractionProgress['step']; label: string }> = [
+  { step: 'reading', label: 'Read the pages' },
+  { step: 'requesting', label: 'Send to the model' },
+  { step: 'parsed', label: 'Parse the classes' }
+]
+
+function stepIndex(progress: ExtractionProgress) {
+  return EXTRACTION_STEPS.findIndex(({ step }) => step === (progress.step === 'ocr' ? 'reading' : progress.step))
+}
+
+function describeProgress(progress: ExtractionProgress) {
+  switch (progress.step) {
+    case 'reading':
+      return `Reading page ${progress.page} of ${progress.totalPages}...`
+    case 'ocr':
+      return `This looks like a scanned PDF. Reading page ${progress.page} of ${progress.totalPages}...`
+    case 'requesting':
+      return progress.chunk
+        ? `Waiting for ${progress.provider} on part ${progress.chunk} of ${progress.totalChunks}...`
+        : `Sent to ${progress.provider}, waiting for the classes... This may take a minute.`
+    case 'parsed':
+    case 'saving':
+    case 'saved':
+      return `Found ${progress.classCount} ${progress.classCount === 1 ? 'class' : 'classes'}`
+  }
+}
+
+function progressFraction(progress: ExtractionProgress) {
+  if (progress.step === 'ocr') return progress.progress
+  if (progress.step === 'reading') return progress.page / progress.totalPages
+  return null
+}
 
 export function PDFUpload() {
-  const [uploading, setUploading] = useState(false)
   const [processing, setProcessing] = useState(false)
   const [error, setError] = useState('')
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [queue, setQueue] = useState<QueuedFile[]>([])
+  const [dragging, setDragging] = useState(false)
+  // With several PDFs: review and save them as one schedule instead of one each
+  const [mergeTracks, setMergeTracks] = useState(false)
+  const [mergedName, setMergedName] = useState('')
+  // School profile the PDFs are extracted with ('' = generic)
+  const [profiles, setProfiles] = useState<InstitutionProfile[]>([])
+  const [profileId, setProfileId] = useState('')
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null)
+  // Aborts the extraction running in this tab
+  const abortRef = useRef<AbortController | null>(null)
+  // Skip the cached result for a PDF that was uploaded before
+  const [forceExtract, setForceExtract] = useState(false)
+  // Uploads that haven't been saved yet, so a job can be picked up after a reload
+  const [jobs, setJobs] = useState<UploadJob[]>([])
+  const [retryingId, setRetryingId] = useState<string | null>(null)
   const { user } = useAuth()
   const navigate = useNavigate()
+  // Set when re-importing a revised PDF into an existing schedule
+  const [searchParams] = useSearchParams()
+  const reimportTrackId = searchParams.get('track')
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file && file.type === 'application/pdf') {
-      setSelectedFile(file)
-      setError('')
-    } else {
-      setError('Please select a valid PDF file')
+  const useServer = !!getExtractionServerUrl()
+
+  useEffect(() => {
+    loadJobs()
+    loadProfiles()
+  }, [user])
+
+  // The server keeps working without this page, so keep the list in sync while a job runs there
+  const watching = useServer && jobs.some(job => job.processing_status === 'processing' && !isStalled(job))
+  useEffect(() => {
+    if (!watching) return
+    const interval = setInterval(loadJobs, JOB_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [watching])
+
+  const loadJobs = async () => {
+    if (!user) return
+
+    const { data, error: jobsError } = await supabase
+      .from('pdf_uploads')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('processing_status', ['pending', 'processing', 'review', 'failed'])
+      .order('created_at', { ascending: false })
+      .limit(10)
+
+    if (jobsError) {
+      console.error('Error loading uploads:', jobsError)
+      return
     }
+    setJobs(data)
   }
 
-  const handleUpload = async () => {
-    if (!selectedFile || !user) return
+  const loadProfiles = async () => {
+    if (!user) return
+
+    const { data: profilesData, error: profilesError } = await supabase
+      .from('institution_profiles')
+      .select('*')
+      .order('name')
+
+    if (profilesError) {
+      console.error('Error loading institution profiles:', profilesError)
+      return
+    }
+    setProfiles(profilesData)
+
+    // Start from the profile this user picked last time
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('institution_profile_id')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (userProfile?.institution_profile_id) setProfileId(userProfile.institution_profile_id)
+  }
+
+  const handleProfileChange = async (id: string) => {
+    setProfileId(id)
+    if (!user) return
+
+    const { error: saveError } = await supabase
+      .from('profiles')
+      .update({ institution_profile_id: id || null })
+      .eq('id', user.id)
+
+    if (saveError) console.error('Error saving institution profile choice:', saveError)
+  }
+
+  const reviewPath = (uploadId: string) =>
+    reimportTrackId ? `/review/${uploadId}?track=${reimportTrackId}` : `/review/${uploadId}`
+
+  // A browser job dies with its tab, so without a server a processing row can always be restarted
+  const retryable = (job: UploadJob) =>
+    canRetry(job) || (!useServer && job.processing_status === 'processing' && retryingId !== job.id)
+
+  const handleRetry = async (job: UploadJob) => {
+    const controller = new AbortController()
+    abortRef.current = controller
 
     try {
-      setUploading(true)
+      setRetryingId(job.id)
       setProcessing(true)
       setError('')
+      setJobs(jobs.map(j => (j.id === job.id ? { ...j, processing_status: 'processing', error_message: null } : j)))
+      await runUploadJob(job, { signal: controller.signal, onProgress: setProgress })
+      navigate(reviewPath(job.id))
+    } catch (err) {
+      if (!(err instanceof ExtractionCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to process PDF')
+      }
+      await loadJobs()
+    } finally {
+      abortRef.current = null
+      setRetryingId(null)
+      setProcessing(false)
+      setProgress(null)
+    }
+  }
+
+  // The job is recorded as failed with "Cancelled", so it can be started again later
+  const handleCancel = () => {
+    abortRef.current?.abort()
+  }
 
-      // 1. Upload PDF to Supabase Storage
-      const fileExt = 'pdf'
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`
-      
-      const { error: uploadError } = await supabase.storage
-        .from('pdf-uploads')
-        .upload(fileName, selectedFile)
+  const addFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    const pdfs = files.filter(file => file.type === 'application/pdf')
+    if (pdfs.length < files.length) {
+      setError('Only PDF files can be uploaded; the other files were left out')
+    } else {
+      setError('')
+    }
+    if (pdfs.length === 0) return
 
-      if (uploadError) throw uploadError
+    const added = pdfs.map(file => ({ id: crypto.randomUUID(), file, status: 'queued' as const }))
+    // A re-import compares one revised PDF against the schedule, so it only takes one file
+    setQueue(reimportTrackId ? added.slice(0, 1) : [...queue.filter(item => item.status !== 'review'), ...added])
+  }
 
-      // 2. Create record in pdf_uploads table
-      const { data: uploadRecord, error: dbError } = await supabase
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files)
+    e.target.value = ''
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    if (!processing) addFiles(e.dataTransfer.files)
+  }
+
+  const removeFile = (id: string) => {
+    setQueue(queue.filter(item => item.id !== id))
+  }
+
+  const updateQueued = (id: string, changes: Partial<QueuedFile>) => {
+    setQueue(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }
+
+  /**
+   * Upload one PDF, create its job record and run extraction. Returns the upload id,
+   * which is also stored on the queue entry (failed jobs can be retried from the list below).
+   */
+  const uploadAndExtract = async (item: QueuedFile, signal: AbortSignal): Promise<string> => {
+    if (!user) throw new Error('You need to be signed in to upload')
+
+    if (item.uploadId) {
+      // Already uploaded on an earlier try; only extraction needs to run again
+      const { data: upload, error: loadError } = await supabase
         .from('pdf_uploads')
-        .insert({
-          user_id: user.id,
-          file_name: selectedFile.name,
-          file_path: fileName,
-          file_size: selectedFile.size,
-          processing_status: 'processing'
-        })
-        .select()
+        .select('*')
+        .eq('id', item.uploadId)
         .single()
 
-      if (dbError) throw dbError
+      if (loadError) throw loadError
 
-      // 3. Process the PDF with Google Gemini
-      const extractedClasses = await processPDF(selectedFile, user.id)
+      updateQueued(item.id, { status: 'processing', error: undefined })
+      await runUploadJob(upload, { file: item.file, force: forceExtract, signal, onProgress: setProgress })
+      updateQueued(item.id, { status: 'review' })
+      return upload.id
+    }
 
-      // 4. Update upload status
-      await supabase
-        .from('pdf_uploads')
-        .update({ 
-          processing_status: 'completed',
-          extracted_count: extractedClasses.length 
-        })
-        .eq('id', uploadRecord.id)
-
-      // 5. Navigate to class catalog
-      navigate('/catalog')
-
-    } catch (err: any) {
-      setError(err.message || 'Failed to process PDF')
-      
-      // Update status to failed if we have an upload record
-      if (user) {
-        await supabase
-          .from('pdf_uploads')
-          .update({ processing_status: 'failed' })
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false })
-          .limit(1)
+    // 1. Upload PDF to Supabase Storage
+    updateQueued(item.id, { status: 'uploading', error: undefined })
+    const fileExt = 'pdf'
+    const fileName = `${user.id}/${Date.now()}-${item.id.slice(0, 8)}.${fileExt}`
+
+    const { error: uploadError } = await supabase.storage
+      .from('pdf-uploads')
+      .upload(fileName, item.file)
+
+    if (uploadError) throw uploadError
+
+    // 2. Create the job record in pdf_uploads
+    const fileHash = await sha256Hex(await item.file.arrayBuffer())
+    const { data: uploadRecord, error: dbError } = await supabase
+      .from('pdf_uploads')
+      .insert({
+        user_id: user.id,
+        file_name: item.file.name,
+        file_path: fileName,
+        file_size: item.file.size,
+        file_hash: fileHash,
+        profile_id: profileId || null,
+        processing_status: 'pending'
+      })
+      .select()
+      .single()
+
+    if (dbError) throw dbError
+
+    // 3. Extract on the server, or in the browser when none is configured.
+    // Every step is recorded on the row, so a failed job shows up below to retry.
+    updateQueued(item.id, { status: 'processing', uploadId: uploadRecord.id })
+    await runUploadJob(uploadRecord, { file: item.file, force: forceExtract, signal, onProgress: setProgress })
+    updateQueued(item.id, { status: 'review' })
+    return uploadRecord.id
+  }
+
+  const handleUpload = async () => {
+    const pending = queue.filter(item => item.status === 'queued' || item.status === 'failed')
+    if (pending.length === 0 || !user) return
+    if (mergeTracks && queue.length > 1 && !mergedName.trim()) {
+      setError('Give the merged schedule a name')
+      return
+    }
+
+    setProcessing(true)
+    setError('')
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    // One file at a time: extraction is the slow part and the providers rate-limit
+    const extracted = queue.flatMap(item => (item.status === 'review' && item.uploadId ? [item.uploadId] : []))
+    for (const item of pending) {
+      try {
+        setProgress(null)
+        extracted.push(await uploadAndExtract(item, controller.signal))
+      } catch (err) {
+        if (err instanceof ExtractionCancelledError) {
+          // Back in the queue; its upload id is kept so the next try skips the upload
+          updateQueued(item.id, { status: 'queued', error: undefined })
+          break
+        }
+        updateQueued(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Failed to process PDF' })
       }
-    } finally {
-      setUploading(false)
-      setProcessing(false)
     }
+
+    abortRef.current = null
+    setProcessing(false)
+    setProgress(null)
+    await loadJobs()
+    if (controller.signal.aborted) return
+
+    const failedCount = queue.length - extracted.length
+    if (failedCount > 0) {
+      setError(`${failedCount} of ${queue.length} ${queue.length === 1 ? 'PDF' : 'PDFs'} couldn't be processed. Fix or remove them, then try again.`)
+      return
+    }
+
+    // 4. Let the user review and fix the classes before they're saved
+    if (extracted.length === 1) {
+      navigate(reviewPath(extracted[0]))
+    } else if (mergeTracks) {
+      const [first, ...rest] = extracted
+      navigate(`/review/${first}?merge=${rest.join(',')}&name=${encodeURIComponent(mergedName.trim())}`)
+    }
+    // Otherwise each PDF becomes its own schedule, reviewed from the list
   }
 
   return (
@@ -97,48 +353,147 @@ export function PDFUpload() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold mb-2">Upload Your Class Schedule</h1>
           <p className="text-gray-600">
-            Upload a PDF of your class schedule and we'll extract all the classes for you.
+            {reimportTrackId
+              ? "Upload the revised PDF and you'll review what changed before anything is saved."
+              : "Upload a PDF of your class schedule and we'll extract all the classes for you."}
           </p>
         </div>
 
         <Card>
           <CardHeader>
-            <CardTitle>Select PDF File</CardTitle>
+            <CardTitle>{reimportTrackId ? 'Select PDF File' : 'Select PDF Files'}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
+              {/* Institution Profile */}
+              <div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="institution-profile">School</Label>
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => navigate('/profiles')}>
+                    Manage profiles
+                  </Button>
+                </div>
+                <select
+                  id="institution-profile"
+                  value={profileId}
+                  onChange={(e) => handleProfileChange(e.target.value)}
+                  disabled={processing}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="">Any school (generic extraction)</option>
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* File Input */}
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition">
+              <div
+                className={`border-2 border-dashed rounded-lg p-8 text-center hover:border-gray-400 transition ${
+                  dragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                }`}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setDragging(true)
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleDrop}
+              >
                 <input
                   type="file"
                   accept=".pdf"
+                  multiple={!reimportTrackId}
                   onChange={handleFileSelect}
                   className="hidden"
                   id="pdf-upload"
-                  disabled={uploading || processing}
+                  disabled={processing}
                 />
                 <label htmlFor="pdf-upload" className="cursor-pointer">
                   <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
                   <p className="text-sm text-gray-600 mb-2">
                     Click to upload or drag and drop
                   </p>
-                  <p className="text-xs text-gray-500">PDF files only</p>
+                  <p className="text-xs text-gray-500">
+                    {reimportTrackId ? 'PDF files only' : 'PDF files only • add several to upload them together'}
+                  </p>
                 </label>
               </div>
 
-              {/* Selected File */}
-              {selectedFile && (
-                <div className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
-                  <FileText className="h-8 w-8 text-blue-500" />
-                  <div className="flex-1">
-                    <p className="font-medium">{selectedFile.name}</p>
+              {/* Selected Files */}
+              {queue.map(item => (
+                <div key={item.id} className="flex items-center gap-3 p-4 bg-gray-50 rounded-lg">
+                  <FileText className="h-8 w-8 text-blue-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{item.file.name}</p>
                     <p className="text-sm text-gray-500">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                      {(item.file.size / 1024 / 1024).toFixed(2)} MB
+                      {item.status === 'uploading' && ' • Uploading...'}
+                      {item.status === 'processing' && ' • Processing...'}
                     </p>
+                    {item.error && <p className="text-sm text-red-600">{item.error}</p>}
                   </div>
+                  {(item.status === 'uploading' || item.status === 'processing') && (
+                    <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+                  )}
+                  {item.status === 'failed' && <AlertCircle className="h-5 w-5 text-red-500" />}
+                  {item.status === 'review' && item.uploadId && (
+                    <>
+                      <CheckCircle2 className="h-5 w-5 text-green-600" />
+                      {!mergeTracks && queue.length > 1 && !processing && (
+                        <Button size="sm" onClick={() => navigate(reviewPath(item.uploadId!))}>
+                          Review
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  {(item.status === 'queued' || item.status === 'failed') && !processing && (
+                    <button onClick={() => removeFile(item.id)} className="text-gray-400 hover:text-gray-600" title="Remove">
+                      <X className="h-5 w-5" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {queue.length > 1 && (
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={mergeTracks}
+                      onChange={(e) => {
+                        setMergeTracks(e.target.checked)
+                        if (!mergedName) setMergedName(defaultTrackName(queue[0].file.name))
+                      }}
+                      disabled={processing}
+                    />
+                    Merge all of these into one schedule
+                  </label>
+                  {mergeTracks ? (
+                    <div>
+                      <Label htmlFor="merged-name">Schedule name</Label>
+                      <Input
+                        id="merged-name"
+                        value={mergedName}
+                        onChange={(e) => setMergedName(e.target.value)}
+                        disabled={processing}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">Each PDF becomes its own schedule.</p>
+                  )}
                 </div>
               )}
 
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={forceExtract}
+                  onChange={(e) => setForceExtract(e.target.checked)}
+                  disabled={processing}
+                />
+                Re-extract even if this PDF was processed before
+              </label>
+
               {/* Error Message */}
               {error && (
                 <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -149,25 +504,127 @@ export function PDFUpload() {
               {/* Upload Button */}
               <Button
                 onClick={handleUpload}
-                disabled={!selectedFile || uploading || processing}
+                disabled={!queue.some(item => item.status === 'queued' || item.status === 'failed') || processing}
                 className="w-full"
               >
-                {uploading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {uploading ? 'Uploading...' : processing ? 'Processing PDF...' : 'Upload & Process'}
+                {processing
+                  ? (queue.length === 1 ? 'Processing PDF...' : 'Processing PDFs...')
+                  : queue.some(item => item.status === 'failed') ? 'Retry Failed' : 'Upload & Process'}
               </Button>
 
-              {processing && (
+              {processing && !progress && (
                 <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                   <p className="text-sm text-blue-600">
                     Processing your PDF with AI... This may take a minute.
                   </p>
                 </div>
               )}
+
+              {/* Extraction Progress (the server reports its steps on the upload row) */}
+              {processing && progress && (
+                <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+                  <ol className="space-y-1">
+                    {EXTRACTION_STEPS.map(({ step, label }, index) => {
+                      const current = stepIndex(progress)
+                      return (
+                        <li
+                          key={step}
+                          className={`flex items-center gap-2 text-sm ${index <= current ? 'text-blue-700' : 'text-gray-400'}`}
+                        >
+                          {index < current || progress.step === 'parsed'
+                            ? <CheckCircle2 className="h-4 w-4" />
+                            : index === current
+                              ? <Loader2 className="h-4 w-4 animate-spin" />
+                              : <span className="h-4 w-4" />}
+                          {label}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                  <p className="text-sm text-blue-600">{describeProgress(progress)}</p>
+                  {progressFraction(progress) !== null && (
+                    <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${Math.round((progressFraction(progress) ?? 0) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {processing && (
+                <Button variant="outline" onClick={handleCancel} className="w-full">
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
 
+        {jobs.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Recent Uploads</CardTitle>
+              <Button variant="link" onClick={() => navigate('/uploads')}>
+                View all uploads
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y">
+                {jobs.map(job => (
+                  <li key={job.id} className="py-3 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{job.file_name}</p>
+                      <p className="text-sm text-gray-600">
+                        {isStalled(job) ? 'Interrupted' : STATUS_LABELS[job.processing_status]}
+                        {(job.attempts ?? 0) > 1 && ` • attempt ${job.attempts}`}
+                        {job.processing_status === 'review' && job.classes_extracted !== null && ` • ${job.classes_extracted} classes`}
+                        {job.processing_status === 'processing' && !isStalled(job) && job.processing_step && ` • ${describeProgress(job.processing_step)}`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {[
+                          `Uploaded ${formatStep(job.created_at)}`,
+                          job.started_at && `started ${formatStep(job.started_at)}`,
+                          job.extracted_at && `extracted ${formatStep(job.extracted_at)}`,
+                          job.failed_at && job.processing_status === 'failed' && `failed ${formatStep(job.failed_at)}`
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                      {job.processing_status === 'failed' && job.error_message && (
+                        <p className="text-sm text-red-600 mt-1">{job.error_message}</p>
+                      )}
+                    </div>
+                    <div className="shrink-0">
+                      {job.processing_status === 'review' && (
+                        <Button size="sm" onClick={() => navigate(reviewPath(job.id))}>
+                          Review
+                        </Button>
+                      )}
+                      {retryable(job) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRetry(job)}
+                          disabled={processing}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          {job.processing_status === 'pending' ? 'Start' : 'Retry'}
+                        </Button>
+                      )}
+                      {retryingId === job.id && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+                      {job.processing_status === 'processing' && retryingId !== job.id && !retryable(job) && (
+                        <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="mt-6">
           <Button variant="outline" onClick={() => navigate('/calendar')}>
             Skip for Now
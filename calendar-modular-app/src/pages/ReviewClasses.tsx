@@ -0,0 +1,418 @@
+import { useEffect, useRef, useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, Loader2, Plus, RefreshCw } from 'lucide-react'
+import { ClassReviewTable, type ReviewRow } from '@/components/ClassReviewTable'
+import { TrackDiffList } from '@/components/TrackDiffList'
+import type { ProcessPDFResult } from '@/services/pdfProcessor'
+import { jobCompleted, updateUploadJob, type UploadJob } from '@/services/uploadJobs'
+import { runUploadJob } from '@/services/extractionJobs'
+import { mergeChunkResults } from '@/services/chunkedExtraction'
+import { applyTrackDiff, defaultTrackName, saveExtractedClasses } from '@/services/classCatalog'
+import { acceptedByDefault, diffEntryId, diffTrack, type CatalogClass } from '@/services/trackDiff'
+import { validateExtractedClass, type ClassValidationIssue } from '@/services/classValidation'
+import { ExtractionCancelledError, type ExtractionProgress } from '@/services/extractionProgress'
+
+interface TrackOption {
+  id: string
+  name: string
+}
+
+// An upload being reviewed and what was extracted from it
+interface ReviewedUpload {
+  job: UploadJob
+  result: ProcessPDFResult | null
+}
+
+type SkippedIssue = ClassValidationIssue & { fileName: string }
+
+const NEW_TRACK = 'new'
+
+export function ReviewClasses() {
+  const { uploadId } = useParams()
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  // Other uploads from a batch, reviewed and saved together with this one as one schedule
+  const mergeParam = searchParams.get('merge')
+  const mergeIds = mergeParam?.split(',').filter(Boolean) ?? []
+  const [rows, setRows] = useState<ReviewRow[]>([])
+  const [skippedIssues, setSkippedIssues] = useState<SkippedIssue[]>([])
+  const [tracks, setTracks] = useState<TrackOption[]>([])
+  const [trackChoice, setTrackChoice] = useState(searchParams.get('track') || NEW_TRACK)
+  const [trackName, setTrackName] = useState('')
+  // Classes already in the chosen track; null while they load
+  const [existingClasses, setExistingClasses] = useState<CatalogClass[] | null>([])
+  // Changes the user ticked or unticked, away from acceptedByDefault
+  const [toggled, setToggled] = useState<Set<string>>(new Set())
+  const [fileName, setFileName] = useState('')
+  const [uploads, setUploads] = useState<ReviewedUpload[]>([])
+  const [reviewable, setReviewable] = useState(false)
+  const [reextracting, setReextracting] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saveProgress, setSaveProgress] = useState<ExtractionProgress | null>(null)
+  // Aborts saving to a new schedule; the half-created schedule is removed again
+  const saveAbortRef = useRef<AbortController | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadUpload()
+  }, [user, uploadId, mergeParam])
+
+  useEffect(() => {
+    loadExistingClasses()
+  }, [user, trackChoice])
+
+  const loadUpload = async () => {
+    if (!user || !uploadId) return
+
+    try {
+      const uploadIds = [uploadId, ...mergeIds]
+      const { data: uploadsData, error: uploadError } = await supabase
+        .from('pdf_uploads')
+        .select('*')
+        .in('id', uploadIds)
+        .eq('user_id', user.id)
+
+      if (uploadError) throw uploadError
+      if (uploadsData.length !== uploadIds.length) throw new Error('Upload not found')
+
+      const { data: tracksData, error: tracksError } = await supabase
+        .from('schedule_tracks')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (tracksError) throw tracksError
+
+      const loaded: ReviewedUpload[] = uploadIds.map(id => {
+        const job = uploadsData.find(upload => upload.id === id)
+        return { job, result: job.extraction_result }
+      })
+      setUploads(loaded)
+      setFileName(loaded.length === 1 ? loaded[0].job.file_name : `${loaded.length} PDFs`)
+      setTrackName(searchParams.get('name') || defaultTrackName(loaded[0].job.file_name))
+      setTracks(tracksData)
+      setReviewable(loaded.every(({ job, result }) => job.processing_status === 'review' && !!result))
+
+      // PDFs of one schedule often overlap (a department list and a personal one), so a class found in several is kept once
+      const classes = mergeChunkResults(loaded.map(({ result }) => result?.classes ?? []))
+      setRows(classes.map(cls => ({ ...cls, id: crypto.randomUUID() })))
+      // Rows the validator had to drop never reach the grid, so list them separately
+      setSkippedIssues(loaded.flatMap(({ job, result }) =>
+        (result?.issues ?? [])
+          .filter(issue => issue.severity === 'error')
+          .map(issue => ({ ...issue, fileName: job.file_name }))
+      ))
+    } catch (err) {
+      console.error('Error loading upload:', err)
+      setError('Could not load this upload')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Uploads whose classes came from an earlier upload of the same PDF
+  const cachedUploads = uploads.filter(({ result }) => result?.cachedAt)
+
+  const handleReextract = async () => {
+    try {
+      setReextracting(true)
+      setError('')
+      for (const { job } of cachedUploads) {
+        await runUploadJob(job, { force: true })
+      }
+      await loadUpload()
+    } catch (err) {
+      console.error('Error re-extracting:', err)
+      setError(err instanceof Error ? err.message : 'Failed to re-extract the PDF')
+    } finally {
+      setReextracting(false)
+    }
+  }
+
+  const loadExistingClasses = async () => {
+    setToggled(new Set())
+    if (!user || trackChoice === NEW_TRACK) {
+      setExistingClasses([])
+      return
+    }
+
+    setExistingClasses(null)
+    const { data, error: classesError } = await supabase
+      .from('class_catalog')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('track_id', trackChoice)
+
+    if (classesError) {
+      console.error('Error loading schedule classes:', classesError)
+      setError('Could not load the classes in this schedule')
+      return
+    }
+    setExistingClasses(data)
+  }
+
+  const toggleChange = (id: string) => {
+    const next = new Set(toggled)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setToggled(next)
+  }
+
+  const addRow = () => {
+    setRows([
+      ...rows,
+      {
+        id: crypto.randomUUID(),
+        course_name: '',
+        days: [],
+        start_time: '',
+        end_time: ''
+      }
+    ])
+  }
+
+  const validRows = rows.flatMap((row, index) => {
+    const { value } = validateExtractedClass(row, index)
+    return value ? [{ ...value, id: row.id }] : []
+  })
+  const reimporting = trackChoice !== NEW_TRACK
+  const diffEntries = reimporting && existingClasses ? diffTrack(existingClasses, validRows) : []
+  const acceptedChanges = diffEntries.filter(entry =>
+    entry.kind !== 'unchanged' && acceptedByDefault(entry) !== toggled.has(diffEntryId(entry))
+  )
+  const selectedTrack = tracks.find(track => track.id === trackChoice)
+
+  const handleCommit = async () => {
+    if (!user || !uploadId) return
+
+    const invalidCount = rows.length - validRows.length
+    if (invalidCount > 0) {
+      setError(`Fix the ${invalidCount} highlighted ${invalidCount === 1 ? 'row' : 'rows'} or remove them before saving`)
+      return
+    }
+    if (trackChoice === NEW_TRACK && !trackName.trim()) {
+      setError('Give the new schedule a name')
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+
+      let trackId = trackChoice
+      if (trackChoice === NEW_TRACK) {
+        const controller = new AbortController()
+        saveAbortRef.current = controller
+        trackId = await saveExtractedClasses(supabase, user.id, validRows, {
+          name: trackName.trim(),
+          pdfFilename: uploads.map(({ job }) => job.file_name).join(', ')
+        }, { signal: controller.signal, onProgress: setSaveProgress })
+        saveAbortRef.current = null
+      } else {
+        // Re-import: only the accepted differences touch the existing rows
+        await applyTrackDiff(supabase, user.id, trackChoice, acceptedChanges)
+      }
+
+      // The classes are saved either way; a stale status only shows up in the upload list
+      for (const { job, result } of uploads) {
+        const classCount = uploads.length === 1 ? validRows.length : result?.classes.length ?? 0
+        await updateUploadJob(supabase, job.id, jobCompleted(classCount, trackId)).catch(() => undefined)
+      }
+
+      navigate('/catalog')
+    } catch (err) {
+      if (err instanceof ExtractionCancelledError) {
+        setError('Saving was cancelled. Nothing was saved.')
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to save classes')
+      }
+    } finally {
+      saveAbortRef.current = null
+      setSaving(false)
+      setSaveProgress(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading extracted classes...</p>
+      </div>
+    )
+  }
+
+  if (!reviewable) {
+    return (
+      <div className="min-h-screen bg-[#F3F0E9] p-8">
+        <div className="max-w-2xl mx-auto">
+          <Card className="bg-white">
+            <CardContent className="py-12 text-center">
+              <p className="text-gray-600 mb-6 text-lg">
+                {error || 'These classes have already been saved.'}
+              </p>
+              <Button onClick={() => navigate('/catalog')} className="bg-black text-white hover:bg-gray-800">
+                Go to Class Catalog
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const flaggedCount = rows.filter((row, index) => validateExtractedClass(row, index).issues.length > 0).length
+
+  return (
+    <div className="min-h-screen bg-[#F3F0E9] p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold mb-2 text-gray-900">Review Extracted Classes</h1>
+          <p className="text-gray-600">
+            {rows.length} {rows.length === 1 ? 'class' : 'classes'} from {fileName}
+            {flaggedCount > 0 && ` • ${flaggedCount} need a closer look`}
+          </p>
+        </div>
+
+        {cachedUploads.length > 0 && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between gap-4">
+            <p className="text-sm text-blue-700">
+              {uploads.length === 1
+                ? `You uploaded this exact PDF before, so these are the classes extracted on ${new Date(cachedUploads[0].result!.cachedAt!).toLocaleDateString()}.`
+                : `${cachedUploads.length} of these PDFs were uploaded before, so their classes come from the earlier extraction.`}
+            </p>
+            <Button variant="outline" onClick={handleReextract} disabled={reextracting}>
+              {reextracting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              {reextracting ? 'Re-extracting...' : 'Re-extract'}
+            </Button>
+          </div>
+        )}
+
+        {skippedIssues.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="h-5 w-5 text-amber-600" />
+              <p className="text-sm font-medium text-amber-800">
+                Some rows couldn't be read and were left out. Add them below if they're real classes.
+              </p>
+            </div>
+            <ul className="text-sm text-amber-700 space-y-1 max-h-40 overflow-y-auto">
+              {skippedIssues.map((issue, idx) => (
+                <li key={idx}>
+                  <span className="font-medium">
+                    {uploads.length > 1 && `${issue.fileName} · `}Row {issue.row + 1}
+                  </span>
+                  {issue.field !== 'row' && ` · ${issue.field}`}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <Card className="bg-white mb-6">
+          <CardHeader>
+            <CardTitle>Save To</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 max-w-2xl">
+              <div>
+                <Label>Schedule</Label>
+                <select
+                  value={trackChoice}
+                  onChange={(e) => setTrackChoice(e.target.value)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value={NEW_TRACK}>New schedule</option>
+                  {tracks.length > 0 && (
+                    <optgroup label="Update an existing schedule">
+                      {tracks.map(track => (
+                        <option key={track.id} value={track.id}>
+                          {track.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+              {trackChoice === NEW_TRACK && (
+                <div>
+                  <Label>Schedule Name</Label>
+                  <Input
+                    value={trackName}
+                    onChange={(e) => setTrackName(e.target.value)}
+                    placeholder="Fall 2025 - Option A"
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {reimporting && (
+          <Card className="bg-white mb-6">
+            <CardHeader>
+              <CardTitle>Changes to {selectedTrack?.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {existingClasses ? (
+                <TrackDiffList entries={diffEntries} accepted={new Set(acceptedChanges.map(diffEntryId))} onToggle={toggleChange} />
+              ) : (
+                <p className="text-sm text-gray-600">Loading classes in this schedule...</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-white mb-6">
+          <CardContent className="pt-6">
+            <ClassReviewTable rows={rows} onChange={setRows} />
+            <Button onClick={addRow} variant="outline" className="mt-4">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Class
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <Button
+            onClick={handleCommit}
+            disabled={saving || rows.length === 0 || (reimporting && (!existingClasses || acceptedChanges.length === 0))}
+            className="bg-black text-white hover:bg-gray-800"
+          >
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving
+              ? saveProgress?.step === 'saving' ? `Saving ${saveProgress.classCount} Class(es)...` : 'Saving...'
+              : reimporting
+                ? `Apply ${acceptedChanges.length} Change(s)`
+                : `Save ${rows.length} Class(es)`}
+          </Button>
+          {saving && !reimporting ? (
+            <Button variant="outline" onClick={() => saveAbortRef.current?.abort()} className="bg-white">
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => navigate('/calendar')} className="bg-white">
+              Decide Later
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
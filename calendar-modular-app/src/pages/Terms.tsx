@@ -0,0 +1,340 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { format, parseISO } from 'date-fns'
+import { Edit2, Plus, Trash2, X } from 'lucide-react'
+import { loadAcademicTerms, type AcademicTerm } from '@/services/academicTerms'
+
+interface BreakForm {
+  key: string
+  name: string
+  start_date: string
+  end_date: string
+}
+
+interface TermForm {
+  id?: string
+  name: string
+  start_date: string
+  end_date: string
+  breaks: BreakForm[]
+}
+
+const EMPTY_FORM: TermForm = {
+  name: '',
+  start_date: '',
+  end_date: '',
+  breaks: []
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy')
+
+const formatRange = (start: string, end: string) =>
+  start === end ? formatDate(start) : `${formatDate(start)} - ${formatDate(end)}`
+
+export function Terms() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [terms, setTerms] = useState<AcademicTerm[]>([])
+  const [form, setForm] = useState<TermForm | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadTerms()
+  }, [user])
+
+  const loadTerms = async () => {
+    if (!user) return
+
+    try {
+      setTerms(await loadAcademicTerms(supabase, user.id))
+    } catch {
+      setError('Could not load your terms')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editTerm = (term: AcademicTerm) => {
+    setError('')
+    setForm({
+      id: term.id,
+      name: term.name,
+      start_date: term.start_date,
+      end_date: term.end_date,
+      breaks: term.term_breaks.map(termBreak => ({
+        key: termBreak.id,
+        name: termBreak.name,
+        start_date: termBreak.start_date,
+        end_date: termBreak.end_date
+      }))
+    })
+  }
+
+  const addBreak = () => {
+    if (!form) return
+    setForm({ ...form, breaks: [...form.breaks, { key: crypto.randomUUID(), name: '', start_date: '', end_date: '' }] })
+  }
+
+  const updateBreak = (key: string, changes: Partial<BreakForm>) => {
+    if (!form) return
+    setForm({ ...form, breaks: form.breaks.map(b => (b.key === key ? { ...b, ...changes } : b)) })
+  }
+
+  const removeBreak = (key: string) => {
+    if (!form) return
+    setForm({ ...form, breaks: form.breaks.filter(b => b.key !== key) })
+  }
+
+  const handleSave = async () => {
+    if (!form || !user) return
+
+    if (!form.name.trim() || !form.start_date || !form.end_date) {
+      setError('Give the term a name, a first day and a last day of classes')
+      return
+    }
+    if (form.end_date < form.start_date) {
+      setError('The last day of classes must be after the first')
+      return
+    }
+    // A break without an end date is a single day off
+    const breaks = form.breaks
+      .filter(b => b.name.trim() || b.start_date)
+      .map(b => ({ name: b.name.trim(), start_date: b.start_date, end_date: b.end_date || b.start_date }))
+    const badBreak = breaks.find(b => !b.name || !b.start_date || b.end_date < b.start_date)
+    if (badBreak) {
+      setError(`Check "${badBreak.name || 'unnamed break'}": every break needs a name and dates in order`)
+      return
+    }
+
+    const row = {
+      name: form.name.trim(),
+      start_date: form.start_date,
+      end_date: form.end_date
+    }
+
+    try {
+      setSaving(true)
+      setError('')
+
+      let termId = form.id
+      if (termId) {
+        const { error: updateError } = await supabase.from('academic_terms').update(row).eq('id', termId)
+        if (updateError) throw updateError
+
+        // Breaks are replaced as a set; nothing else points at them
+        const { error: clearError } = await supabase.from('term_breaks').delete().eq('term_id', termId)
+        if (clearError) throw clearError
+      } else {
+        const { data: term, error: insertError } = await supabase
+          .from('academic_terms')
+          .insert({ ...row, user_id: user.id })
+          .select()
+          .single()
+        if (insertError) throw insertError
+        termId = term.id
+      }
+
+      if (breaks.length > 0) {
+        const { error: breaksError } = await supabase
+          .from('term_breaks')
+          .insert(breaks.map(b => ({ ...b, term_id: termId, user_id: user.id })))
+        if (breaksError) throw breaksError
+      }
+
+      setForm(null)
+      await loadTerms()
+    } catch (err) {
+      console.error('Error saving term:', err)
+      setError('Failed to save the term')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTerm = async (term: AcademicTerm) => {
+    if (!confirm(`Delete "${term.name}"? Schedules in it keep their classes, but they'll no longer stop at the end of the term.`)) return
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('academic_terms')
+        .delete()
+        .eq('id', term.id)
+
+      if (deleteError) throw deleteError
+      setTerms(terms.filter(t => t.id !== term.id))
+    } catch (err) {
+      console.error('Error deleting term:', err)
+      alert('Failed to delete term')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading terms...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Terms</h1>
+            <p className="text-gray-600">
+              Classes in a schedule only appear between its term's first and last day, and not on holidays or breaks.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => navigate('/catalog')}>
+            Back to Classes
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {form ? (
+          <Card className="mb-6">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>{form.id ? 'Edit Term' : 'New Term'}</CardTitle>
+              <button onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                <X className="h-5 w-5" />
+              </button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Name *</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Fall 2025"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>First Day of Classes *</Label>
+                  <Input
+                    type="date"
+                    value={form.start_date}
+                    onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Last Day of Classes *</Label>
+                  <Input
+                    type="date"
+                    value={form.end_date}
+                    onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Holidays and Breaks</Label>
+                <p className="text-xs text-gray-500 mb-2">Leave the end date empty for a single day off.</p>
+                <div className="space-y-2">
+                  {form.breaks.map(termBreak => (
+                    <div key={termBreak.key} className="flex items-center gap-2">
+                      <Input
+                        value={termBreak.name}
+                        onChange={(e) => updateBreak(termBreak.key, { name: e.target.value })}
+                        placeholder="Thanksgiving"
+                      />
+                      <Input
+                        type="date"
+                        value={termBreak.start_date}
+                        onChange={(e) => updateBreak(termBreak.key, { start_date: e.target.value })}
+                        className="w-44 shrink-0"
+                      />
+                      <Input
+                        type="date"
+                        value={termBreak.end_date}
+                        onChange={(e) => updateBreak(termBreak.key, { end_date: e.target.value })}
+                        className="w-44 shrink-0"
+                      />
+                      <button
+                        onClick={() => removeBreak(termBreak.key)}
+                        className="text-gray-400 hover:text-gray-600 shrink-0"
+                        title="Remove"
+                      >
+                        <X className="h-5 w-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={addBreak} className="mt-2">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Holiday or Break
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Term'}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Button onClick={() => setForm(EMPTY_FORM)} variant="outline" className="mb-6">
+            <Plus className="h-4 w-4 mr-2" />
+            New Term
+          </Button>
+        )}
+
+        {terms.length === 0 ? (
+          <p className="text-gray-500">No terms yet. Add one, then pick it for your schedules on the classes page.</p>
+        ) : (
+          <div className="space-y-3">
+            {terms.map(term => (
+              <Card key={term.id}>
+                <CardContent className="py-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">{term.name}</p>
+                    <p className="text-sm text-gray-600">{formatRange(term.start_date, term.end_date)}</p>
+                    {term.term_breaks.length > 0 && (
+                      <ul className="mt-1 text-xs text-gray-500">
+                        {term.term_breaks.map(termBreak => (
+                          <li key={termBreak.id}>
+                            {termBreak.name}: {formatRange(termBreak.start_date, termBreak.end_date)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => editTerm(term)} title="Edit term">
+                      <Edit2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => deleteTerm(term)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      title="Delete term"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { format, parseISO } from 'date-fns'
+import { Download, FileText, Loader2, RotateCcw, Trash2, Upload } from 'lucide-react'
+import { getExtractionServerUrl, runUploadJob } from '@/services/extractionJobs'
+import { deleteUpload, isStalled, type UploadJob } from '@/services/uploadJobs'
+
+const POLL_INTERVAL_MS = 3000
+
+const STATUS_STYLES: Record<UploadJob['processing_status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting to start', className: 'bg-gray-100 text-gray-700' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-700' },
+  review: { label: 'Ready to review', className: 'bg-amber-100 text-amber-800' },
+  completed: { label: 'Saved', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+}
+
+export function Uploads() {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [uploads, setUploads] = useState<UploadJob[]>([])
+  const [trackNames, setTrackNames] = useState<Map<string, string>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [runningId, setRunningId] = useState<string | null>(null)
+  // Upload whose delete confirmation is open, and whether to take its schedule with it
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [deleteTrack, setDeleteTrack] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    loadUploads()
+  }, [user])
+
+  const useServer = !!getExtractionServerUrl()
+
+  // Jobs on the extraction server finish without this page; refresh while any is running
+  const watching = useServer && uploads.some(upload => upload.processing_status === 'processing' && !isStalled(upload))
+  useEffect(() => {
+    if (!watching) return
+    const interval = setInterval(loadUploads, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [watching])
+
+  const loadUploads = async () => {
+    if (!user) return
+
+    try {
+      const { data: uploadsData, error: uploadsError } = await supabase
+        .from('pdf_uploads')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (uploadsError) throw uploadsError
+
+      const { data: tracksData, error: tracksError } = await supabase
+        .from('schedule_tracks')
+        .select('id, name')
+        .eq('user_id', user.id)
+
+      if (tracksError) throw tracksError
+
+      setUploads(uploadsData)
+      setTrackNames(new Map(tracksData.map(track => [track.id, track.name])))
+    } catch (err) {
+      console.error('Error loading uploads:', err)
+      setError('Could not load your uploads')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const downloadPDF = async (upload: UploadJob) => {
+    const { data, error: urlError } = await supabase.storage
+      .from('pdf-uploads')
+      .createSignedUrl(upload.file_path, 60, { download: upload.file_name })
+
+    if (urlError || !data) {
+      console.error('Error creating download link:', urlError)
+      alert('Could not download this PDF. It may have been removed from storage.')
+      return
+    }
+    window.location.href = data.signedUrl
+  }
+
+  // A saved upload is reviewed as a re-import, so only the differences touch its schedule
+  const reviewPath = (upload: UploadJob) =>
+    upload.track_id ? `/review/${upload.id}?track=${upload.track_id}` : `/review/${upload.id}`
+
+  const rerunExtraction = async (upload: UploadJob) => {
+    try {
+      setRunningId(upload.id)
+      setError('')
+      setUploads(uploads.map(u => (u.id === upload.id ? { ...u, processing_status: 'processing', error_message: null } : u)))
+      // Skip the cache: re-running is for when the last result wasn't right
+      await runUploadJob(upload, { force: true })
+      navigate(reviewPath(upload))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process PDF')
+      await loadUploads()
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const startDelete = (upload: UploadJob) => {
+    setDeletingId(upload.id)
+    setDeleteTrack(false)
+  }
+
+  const confirmDelete = async (upload: UploadJob) => {
+    try {
+      await deleteUpload(supabase, upload, { deleteTrack })
+      setUploads(uploads.filter(u => u.id !== upload.id))
+      setDeletingId(null)
+    } catch (err) {
+      console.error('Error deleting upload:', err)
+      alert('Failed to delete upload')
+      await loadUploads()
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p>Loading uploads...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F3F0E9] p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 text-gray-900">Uploads</h1>
+            <p className="text-gray-600">
+              {uploads.length} {uploads.length === 1 ? 'PDF' : 'PDFs'} uploaded
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => navigate('/upload')} className="bg-white">
+              <Upload className="mr-2 h-4 w-4" />
+              Upload PDF
+            </Button>
+            <Button onClick={() => navigate('/catalog')} className="bg-black text-white hover:bg-gray-800">
+              Manage Classes
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {uploads.length === 0 ? (
+          <Card className="bg-white">
+            <CardContent className="py-12 text-center">
+              <FileText className="h-16 w-16 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600 mb-6 text-lg">No uploads yet</p>
+              <Button onClick={() => navigate('/upload')} className="bg-black text-white hover:bg-gray-800">
+                <Upload className="mr-2 h-4 w-4" />
+                Upload PDF Schedule
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {uploads.map(upload => {
+              const status = isStalled(upload)
+                ? { label: 'Interrupted', className: 'bg-red-100 text-red-700' }
+                : STATUS_STYLES[upload.processing_status]
+              // A browser job dies with its tab, so only a server job can still be running elsewhere
+              const running = runningId === upload.id || (useServer && upload.processing_status === 'processing' && !isStalled(upload))
+              const trackName = upload.track_id ? trackNames.get(upload.track_id) : undefined
+
+              return (
+                <Card key={upload.id} className="bg-white">
+                  <CardContent className="py-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3 min-w-0">
+                        <FileText className="h-8 w-8 text-blue-500 shrink-0" />
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium truncate">{upload.file_name}</p>
+                            <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>
+                              {status.label}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {format(parseISO(upload.created_at), 'MMM d, yyyy h:mm a')}
+                            {upload.file_size !== null && ` • ${(upload.file_size / 1024 / 1024).toFixed(2)} MB`}
+                            {upload.classes_extracted !== null && upload.processing_status !== 'failed' &&
+                              ` • ${upload.classes_extracted} ${upload.classes_extracted === 1 ? 'class' : 'classes'}`}
+                            {(upload.attempts ?? 0) > 1 && ` • ${upload.attempts} attempts`}
+                          </p>
+                          {trackName && (
+                            <p className="text-sm text-gray-600">
+                              Saved to{' '}
+                              <button onClick={() => navigate('/catalog')} className="underline hover:text-gray-900">
+                                {trackName}
+                              </button>
+                            </p>
+                          )}
+                          {upload.processing_status === 'failed' && upload.error_message && (
+                            <p className="text-sm text-red-600 mt-1">{upload.error_message}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex gap-2 shrink-0">
+                        {upload.processing_status === 'review' && (
+                          <Button size="sm" onClick={() => navigate(reviewPath(upload))}>
+                            Review
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => downloadPDF(upload)} title="Download the original PDF">
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => rerunExtraction(upload)}
+                          disabled={running || runningId !== null}
+                          title="Extract the classes again"
+                        >
+                          {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => startDelete(upload)}
+                          disabled={running}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          title="Delete upload"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {deletingId === upload.id && (
+                      <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg space-y-3">
+                        <p className="text-sm text-red-700">
+                          Delete "{upload.file_name}" and its stored PDF? This cannot be undone.
+                        </p>
+                        {trackName && (
+                          <label className="flex items-center gap-2 text-sm text-red-700">
+                            <input
+                              type="checkbox"
+                              checked={deleteTrack}
+                              onChange={(e) => setDeleteTrack(e.target.checked)}
+                            />
+                            Also delete the schedule "{trackName}" and all its classes
+                          </label>
+                        )}
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="destructive" onClick={() => confirmDelete(upload)}>
+                            Delete
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setDeletingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Academic terms: when a schedule's classes start and stop, and the holidays and breaks
+ * in between. The calendar and the export apply the same rules, so an exported schedule
+ * has the meetings the calendar shows. Dates are YYYY-MM-DD strings and are compared as
+ * text, so no time zone can move a class onto the wrong day.
+ */
+
+export interface TermBreak {
+  id: string;
+  term_id: string;
+  name: string;
+  start_date: string;
+  // Same as start_date for a single holiday
+  end_date: string;
+}
+
+export interface AcademicTerm {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  term_breaks: TermBreak[];
+}
+
+// The days one class can meet on
+export interface ClassTermRules {
+  start: string | null;
+  end: string | null;
+  breaks: TermBreak[];
+}
+
+interface TermSource {
+  term_start?: string | null;
+  term_end?: string | null;
+  track_id?: string | null;
+}
+
+/**
+ * A local date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * The rules for a class: its schedule's term and days off. Dates printed on the class
+ * itself (a half-term course) take precedence over the term's.
+ */
+export function termRulesFor(cls: TermSource, termsByTrack: Map<string, AcademicTerm>): ClassTermRules {
+  const term = cls.track_id ? termsByTrack.get(cls.track_id) : undefined;
+  return {
+    start: cls.term_start || term?.start_date || null,
+    end: cls.term_end || term?.end_date || null,
+    breaks: term?.term_breaks ?? [],
+  };
+}
+
+export function breakOn(breaks: TermBreak[], dateKey: string): TermBreak | undefined {
+  return breaks.find(termBreak => termBreak.start_date <= dateKey && dateKey <= termBreak.end_date);
+}
+
+/**
+ * Whether a class meets on this date at all (its weekday is checked by the caller)
+ */
+export function meetsOn(rules: ClassTermRules, date: Date): boolean {
+  const key = toDateKey(date);
+  if (rules.start && key < rules.start) return false;
+  if (rules.end && key > rules.end) return false;
+  return !breakOn(rules.breaks, key);
+}
+
+/**
+ * All of a user's terms with their breaks, latest first
+ */
+export async function loadAcademicTerms(supabase: SupabaseClient, userId: string): Promise<AcademicTerm[]> {
+  const { data, error } = await supabase
+    .from('academic_terms')
+    .select('*, term_breaks(*)')
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error loading academic terms:', error);
+    throw error;
+  }
+
+  return data.map(term => ({
+    ...term,
+    term_breaks: [...(term.term_breaks ?? [])].sort((a: TermBreak, b: TermBreak) => a.start_date.localeCompare(b.start_date)),
+  }));
+}
+
+/**
+ * Each schedule track's term, keyed by track id. Tracks without a term are left out.
+ */
+export async function loadTermsByTrack(supabase: SupabaseClient, userId: string): Promise<Map<string, AcademicTerm>> {
+  const { data: tracks, error } = await supabase
+    .from('schedule_tracks')
+    .select('id, term_id')
+    .eq('user_id', userId)
+    .not('term_id', 'is', null);
+
+  if (error) {
+    console.error('Error loading schedule terms:', error);
+    throw error;
+  }
+  if (tracks.length === 0) return new Map();
+
+  const terms = new Map((await loadAcademicTerms(supabase, userId)).map(term => [term.id, term]));
+  return new Map(tracks.flatMap(track => {
+    const term = terms.get(track.term_id);
+    return term ? [[track.id, term] as const] : [];
+  }));
+}
@@ -1,71 +1,6 @@
 import { supabase } from '../lib/supabase';
-
-interface CalendarEvent {
-  id: string;
-  title: string;
-  start: Date;
-  end: Date;
-  location?: string;
-  description?: string;
-}
-
-/**
- * Generate iCalendar (.ics) format content
- * Compatible with Google Calendar, Outlook, and Apple Calendar
- */
-function generateICS(events: CalendarEvent[], calendarName: string = 'My Schedule'): string {
-  const now = new Date();
-  const timestamp = now.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  
-  // Helper to format date for iCal
-  const formatDate = (date: Date): string => {
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  };
-  
-  // Helper to escape text for iCal
-  const escapeText = (text: string): string => {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/;/g, '\\;')
-      .replace(/,/g, '\\,')
-      .replace(/\n/g, '\\n');
-  };
-  
-  let ics = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//Calendar Modular//EN',
-    `X-WR-CALNAME:${escapeText(calendarName)}`,
-    'X-WR-TIMEZONE:America/New_York',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
-  ];
-  
-  events.forEach(event => {
-    ics.push('BEGIN:VEVENT');
-    ics.push(`UID:${event.id}@calendar-modular.app`);
-    ics.push(`DTSTAMP:${timestamp}`);
-    ics.push(`DTSTART:${formatDate(event.start)}`);
-    ics.push(`DTEND:${formatDate(event.end)}`);
-    ics.push(`SUMMARY:${escapeText(event.title)}`);
-    
-    if (event.location) {
-      ics.push(`LOCATION:${escapeText(event.location)}`);
-    }
-    
-    if (event.description) {
-      ics.push(`DESCRIPTION:${escapeText(event.description)}`);
-    }
-    
-    ics.push('STATUS:CONFIRMED');
-    ics.push('SEQUENCE:0');
-    ics.push('END:VEVENT');
-  });
-  
-  ics.push('END:VCALENDAR');
-  
-  return ics.join('\r\n');
-}
+import { buildScheduleCalendar } from './scheduleCalendar';
+import { writeICS } from './icsWriter';
 
 /**
  * Download ICS file to user's computer
@@ -87,70 +22,9 @@ function downloadICS(content: string, filename: string = 'schedule.ics'): void {
  */
 export async function exportCalendar(userId: string, format: 'download' | 'google' | 'outlook' | 'apple' = 'download'): Promise<void> {
   try {
-    // Fetch all visible classes
-    const { data: classes, error: classError } = await supabase
-      .from('class_catalog')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_hidden', false);
-    
-    if (classError) throw classError;
-    
-    // Fetch all personal events
-    const { data: events, error: eventsError } = await supabase
-      .from('events')
-      .select('*')
-      .eq('user_id', userId);
-    
-    if (eventsError) throw eventsError;
-    
-    // Convert to calendar events
-    const calendarEvents: CalendarEvent[] = [];
-    
-    // Add classes (we'll create recurring events for each day)
-    classes?.forEach(classItem => {
-      classItem.days.forEach((day: string) => {
-        // Create a representative event for the first occurrence
-        const baseDate = getNextDayOfWeek(new Date(), day);
-        const [startHour, startMin] = classItem.start_time.split(':').map(Number);
-        const [endHour, endMin] = classItem.end_time.split(':').map(Number);
-        
-        const start = new Date(baseDate);
-        start.setHours(startHour, startMin, 0, 0);
-        
-        const end = new Date(baseDate);
-        end.setHours(endHour, endMin, 0, 0);
-        
-        calendarEvents.push({
-          id: `${classItem.id}-${day}`,
-          title: classItem.course_code 
-            ? `${classItem.course_code}: ${classItem.course_name}` 
-            : classItem.course_name,
-          start,
-          end,
-          location: classItem.location || undefined,
-          description: [
-            classItem.section && `Section: ${classItem.section}`,
-            classItem.instructor && `Instructor: ${classItem.instructor}`,
-          ].filter(Boolean).join('\n'),
-        });
-      });
-    });
-    
-    // Add personal events
-    events?.forEach(event => {
-      calendarEvents.push({
-        id: event.id,
-        title: event.title,
-        start: new Date(event.start_time),
-        end: new Date(event.end_time),
-        location: event.location || undefined,
-        description: event.description || undefined,
-      });
-    });
-    
-    // Generate ICS content
-    const icsContent = generateICS(calendarEvents, 'My Class Schedule');
+    // Local times in the browser's zone, which is the zone the calendar view shows
+    const calendar = await buildScheduleCalendar(supabase, userId, Intl.DateTimeFormat().resolvedOptions().timeZone);
+    const icsContent = writeICS(calendar);
     
     if (format === 'download') {
       // Direct download
@@ -176,26 +50,3 @@ export async function exportCalendar(userId: string, format: 'download' | 'googl
     throw error;
   }
 }
-
-/**
- * Helper: Get the next occurrence of a day of week
- */
-function getNextDayOfWeek(date: Date, dayCode: string): Date {
-  const days: { [key: string]: number } = {
-    'U': 0, // Sunday
-    'M': 1, // Monday
-    'T': 2, // Tuesday
-    'W': 3, // Wednesday
-    'R': 4, // Thursday
-    'F': 5, // Friday
-    'S': 6, // Saturday
-  };
-  
-  const targetDay = days[dayCode];
-  const currentDay = date.getDay();
-  const daysToAdd = (targetDay - currentDay + 7) % 7 || 7;
-  
-  const result = new Date(date);
-  result.setDate(date.getDate() + daysToAdd);
-  return result;
-}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Calendar feeds: secret links calendar apps subscribe to, served by the app server at
+ * /feeds/<token>.ics. The token is the only credential, so a link that leaks is revoked
+ * by deleting it and a new one made in its place.
+ */
+
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  token: string;
+  name: string;
+  time_zone: string;
+  created_at: string;
+  last_fetched_at: string | null;
+}
+
+export interface CalendarFeedUrls {
+  // For pasting into Google Calendar or Outlook
+  https: string;
+  // Opens the subscribe dialog in Apple Calendar and Outlook
+  webcal: string;
+}
+
+// 32 random bytes as base64url
+export const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Links to a feed on the app server
+ */
+export function calendarFeedUrls(serverUrl: string, token: string): CalendarFeedUrls {
+  const https = `${serverUrl.replace(/\/$/, '')}/feeds/${token}.ics`;
+  return { https, webcal: https.replace(/^https?:\/\//, 'webcal://') };
+}
+
+/**
+ * A user's subscription links, newest first
+ */
+export async function loadCalendarFeeds(supabase: SupabaseClient, userId: string): Promise<CalendarFeed[]> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading calendar feeds:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * A new subscription link. Class times in the feed are written in this zone.
+ */
+export async function createCalendarFeed(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  timeZone: string
+): Promise<CalendarFeed> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId, token: generateFeedToken(), name, time_zone: timeZone })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating calendar feed:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Revoke a link: its URL stops working the next time a calendar app refreshes it
+ */
+export async function revokeCalendarFeed(supabase: SupabaseClient, feedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .delete()
+    .eq('id', feedId);
+
+  if (error) {
+    console.error('Error revoking calendar feed:', error);
+    throw error;
+  }
+}
+
+/**
+ * The feed a token opens, or null (server side, with the service role)
+ */
+export async function findCalendarFeed(supabase: SupabaseClient, token: string): Promise<CalendarFeed | null> {
+  if (!FEED_TOKEN_PATTERN.test(token)) return null;
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error looking up calendar feed:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Record a refresh, so the user can tell which links are still in use
+ */
+export async function markCalendarFeedFetched(supabase: SupabaseClient, feedId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq('id', feedId);
+
+  if (error) {
+    console.error('Error updating calendar feed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { splitIntoChunks, withChunking } from './chunkedExtraction';
+import type { ExtractionProvider } from './extractionProviders';
+import { tablesToText, type PageTable } from './pdfLayout';
+
+function page(pageNumber: number, lines: string[]): PageTable {
+  return {
+    pageNumber,
+    columnCount: 1,
+    rows: lines.map((text, index) => ({ y: -index, cells: [{ text, x: 0, column: 0 }] })),
+  };
+}
+
+describe('splitIntoChunks', () => {
+  it('keeps page numbers after an empty page', () => {
+    const text = tablesToText([
+      page(1, ['CS 101 MWF 9:00-9:50']),
+      page(2, []),
+      page(3, ['MATH 151 TR 10:30-11:45']),
+    ]);
+
+    const chunks = splitIntoChunks(text, { maxChars: 30, overlapRows: 0 });
+
+    expect(chunks.map(chunk => [chunk.firstPage, chunk.lastPage])).toEqual([[1, 1], [3, 3]]);
+    expect(chunks[1].text).toBe('MATH 151 TR 10:30-11:45');
+  });
+});
+
+describe('withChunking', () => {
+  it('stops sending chunks once one fails', async () => {
+    const signals: AbortSignal[] = [];
+    const provider: ExtractionProvider = {
+      name: 'mock',
+      extractClasses: async (pdfText, context = {}) => {
+        signals.push(context.signal!);
+        if (pdfText.startsWith('page 1')) throw new Error('quota exceeded');
+        // The other chunk is still waiting on its response when the first one fails
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return [];
+      },
+    };
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const text = ['page 1', 'page 2', 'page 3', 'page 4'].join('\n\n');
+
+    await expect(withChunking(provider, { maxChars: 10, concurrency: 2, overlapRows: 0 }).extractClasses(text))
+      .rejects.toThrow('Extraction failed for pages 1-1: quota exceeded');
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    log.mockRestore();
+  });
+});
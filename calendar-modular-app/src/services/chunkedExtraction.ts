@@ -0,0 +1,200 @@
+import type { ExtractedClass } from './pdfProcessor';
+import type { ExtractionProvider } from './extractionProviders';
+import { normalizeDays } from './classValidation';
+import { parseTime } from './scheduleParser';
+import { splitPages } from './pdfLayout';
+import { ExtractionCancelledError, throwIfCancelled, type ExtractionContext } from './extractionProgress';
+
+/**
+ * Chunked extraction for long catalogs.
+ * A full department schedule is too big for one prompt (it times out or the
+ * output gets truncated), so the text is sent a few pages at a time and the
+ * partial results are merged back into one list.
+ */
+
+export interface TextChunk {
+  text: string;
+  firstPage: number;
+  lastPage: number;
+}
+
+export interface ChunkingOptions {
+  // Upper bound on characters per chunk; whole pages are kept together when they fit
+  maxChars?: number;
+  // How many chunks are sent to the model at once
+  concurrency?: number;
+  // Rows repeated from the end of one chunk at the start of the next, so rows cut at a page break are seen whole
+  overlapRows?: number;
+}
+
+const DEFAULT_MAX_CHARS = 12000;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_OVERLAP_ROWS = 3;
+
+/**
+ * Split extracted text (pages separated by a blank line) into page-range chunks
+ */
+export function splitIntoChunks(pdfText: string, options: ChunkingOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapRows = options.overlapRows ?? DEFAULT_OVERLAP_ROWS;
+  const pages = splitPages(pdfText);
+
+  // Break any single page that's too large on row boundaries
+  const pieces: Array<{ text: string; page: number }> = [];
+  pages.forEach((page, index) => {
+    // Empty pages still take up a page number, but there's nothing to send
+    if (page.trim() === '') return;
+    let current: string[] = [];
+    for (const row of page.split('\n')) {
+      if (current.length > 0 && current.join('\n').length + row.length + 1 > maxChars) {
+        pieces.push({ text: current.join('\n'), page: index + 1 });
+        current = [];
+      }
+      current.push(row);
+    }
+    if (current.length > 0) pieces.push({ text: current.join('\n'), page: index + 1 });
+  });
+
+  const chunks: TextChunk[] = [];
+  for (const piece of pieces) {
+    const chunk = chunks[chunks.length - 1];
+    if (chunk && chunk.text.length + piece.text.length + 2 <= maxChars) {
+      chunk.text += `\n\n${piece.text}`;
+      chunk.lastPage = piece.page;
+    } else {
+      const overlap = chunk && overlapRows > 0 ? chunk.text.split('\n').slice(-overlapRows).join('\n') : '';
+      chunks.push({
+        text: overlap ? `${overlap}\n${piece.text}` : piece.text,
+        firstPage: piece.page,
+        lastPage: piece.page,
+      });
+    }
+  }
+
+  return chunks;
+}
+
+function filledFieldCount(row: ExtractedClass): number {
+  return [row.course_name, row.course_code, row.section, row.instructor, row.location].filter(Boolean).length;
+}
+
+/**
+ * Key that identifies a meeting regardless of which chunk it came from
+ */
+function meetingKey(row: ExtractedClass): string | null {
+  const days = normalizeDays(row.days);
+  const start = typeof row.start_time === 'string' ? parseTime(row.start_time) : null;
+  const end = typeof row.end_time === 'string' ? parseTime(row.end_time) : null;
+  const course = row.course_code || row.course_name;
+  if (!days || !start || !end || !course) return null;
+
+  return [course, row.section ?? '', days.join(''), start, end].join('|').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Merge per-chunk results. A section that straddles a chunk boundary comes back
+ * twice (once possibly truncated), so only the most complete copy is kept.
+ * Rows without a usable key are passed through for validation to report.
+ * Also merges the results of several uploads reviewed as one schedule.
+ */
+export function mergeChunkResults(results: ExtractedClass[][]): ExtractedClass[] {
+  const merged: ExtractedClass[] = [];
+  const indexByKey = new Map<string, number>();
+
+  for (const row of results.flat()) {
+    const key = meetingKey(row);
+    if (key === null) {
+      merged.push(row);
+      continue;
+    }
+
+    const existingIndex = indexByKey.get(key);
+    if (existingIndex === undefined) {
+      indexByKey.set(key, merged.length);
+      merged.push(row);
+      continue;
+    }
+
+    const existing = merged[existingIndex];
+    const better = filledFieldCount(row) > filledFieldCount(existing)
+      || (filledFieldCount(row) === filledFieldCount(existing) && (row.course_name?.length ?? 0) > (existing.course_name?.length ?? 0));
+    if (better) merged[existingIndex] = row;
+  }
+
+  return merged;
+}
+
+/**
+ * Run the provider over each chunk with limited concurrency, keeping chunk order
+ */
+async function extractChunks(
+  provider: ExtractionProvider,
+  chunks: TextChunk[],
+  concurrency: number,
+  context: ExtractionContext
+): Promise<ExtractedClass[][]> {
+  const results: ExtractedClass[][] = new Array(chunks.length);
+  let next = 0;
+
+  let failure: unknown = null;
+  throwIfCancelled(context.signal);
+
+  // Aborted by the caller, or by the first chunk that fails so the others stop early
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  context.signal?.addEventListener('abort', abort);
+
+  const worker = async () => {
+    while (next < chunks.length && !controller.signal.aborted) {
+      const index = next++;
+      const chunk = chunks[index];
+      console.log(`Extracting pages ${chunk.firstPage}-${chunk.lastPage} (chunk ${index + 1} of ${chunks.length})...`);
+      try {
+        results[index] = await provider.extractClasses(chunk.text, {
+          signal: controller.signal,
+          onProgress: progress => context.onProgress?.(
+            progress.step === 'requesting' ? { ...progress, chunk: index + 1, totalChunks: chunks.length } : progress
+          )
+        });
+      } catch (error) {
+        // Chunks cut short by the abort below report cancellation; keep the error that caused it
+        if (failure === null) {
+          failure = error instanceof ExtractionCancelledError
+            ? error
+            : new Error(`Extraction failed for pages ${chunk.firstPage}-${chunk.lastPage}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        abort();
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  } finally {
+    context.signal?.removeEventListener('abort', abort);
+  }
+  if (failure !== null) throw failure;
+  throwIfCancelled(context.signal);
+  return results;
+}
+
+/**
+ * Wrap a provider so long documents are extracted in page-range chunks.
+ * Short documents still go out as a single request.
+ */
+export function withChunking(provider: ExtractionProvider, options: ChunkingOptions = {}): ExtractionProvider {
+  return {
+    name: provider.name,
+    async extractClasses(pdfText, context = {}) {
+      const chunks = splitIntoChunks(pdfText, options);
+      if (chunks.length <= 1) {
+        return provider.extractClasses(pdfText, context);
+      }
+
+      const results = await extractChunks(provider, chunks, options.concurrency ?? DEFAULT_CONCURRENCY, context);
+      const merged = mergeChunkResults(results);
+      console.log(`Merged ${results.flat().length} rows from ${chunks.length} chunks into ${merged.length} classes`);
+      return merged;
+    }
+  };
+}
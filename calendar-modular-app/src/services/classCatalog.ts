@@ -0,0 +1,172 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExtractedClass } from './pdfProcessor';
+import type { TrackDiffEntry } from './trackDiff';
+import { ExtractionCancelledError, throwIfCancelled, type ExtractionContext } from './extractionProgress';
+
+/**
+ * Writing extracted classes to class_catalog. Takes the Supabase client as a parameter
+ * so the browser (user session) and the extraction server (service role) share it.
+ */
+
+/**
+ * Default name for a track created from an uploaded file
+ */
+export function defaultTrackName(fileName: string): string {
+  return `${fileName.replace(/\.pdf$/i, '')} - ${new Date().toLocaleDateString()}`;
+}
+
+// Save into an existing track, or create a new one with this name
+export type TrackTarget = { trackId: string } | { name: string; pdfFilename?: string };
+
+function toProvenanceColumns(classData: ExtractedClass) {
+  return {
+    confidence: classData.confidence ?? null,
+    source_page: classData.source?.page ?? null,
+    source_start: classData.source?.start ?? null,
+    source_end: classData.source?.end ?? null,
+    source_text: classData.source?.text ?? null
+  };
+}
+
+function toCatalogRow(userId: string, trackId: string, classData: ExtractedClass) {
+  return {
+    user_id: userId,
+    track_id: trackId,
+    course_name: classData.course_name,
+    course_code: classData.course_code || null,
+    section: classData.section || null,
+    crn: classData.crn || null,
+    credits: classData.credits ?? null,
+    meeting_type: classData.meeting_type || null,
+    instructor: classData.instructor || null,
+    location: classData.location || null,
+    days: classData.days,
+    start_time: classData.start_time,
+    end_time: classData.end_time,
+    extra_meetings: classData.extra_meetings ?? [],
+    term_start: classData.term_start || null,
+    term_end: classData.term_end || null,
+    final_exam_date: classData.final_exam_date || null,
+    final_exam_start: classData.final_exam_start || null,
+    final_exam_end: classData.final_exam_end || null,
+    is_hidden: false,
+    ...toProvenanceColumns(classData)
+  };
+}
+
+/**
+ * Save reviewed classes to class_catalog, creating the schedule track if needed.
+ * Returns the track id. A newly created track is removed again if the classes can't be saved
+ * or the save is cancelled through the context's signal.
+ */
+export async function saveExtractedClasses(
+  supabase: SupabaseClient,
+  userId: string,
+  classes: ExtractedClass[],
+  target: TrackTarget,
+  context: ExtractionContext = {}
+): Promise<string> {
+  const { signal, onProgress } = context;
+  throwIfCancelled(signal);
+
+  let trackId: string;
+  let createdTrack = false;
+
+  if ('trackId' in target) {
+    trackId = target.trackId;
+  } else {
+    const { data: track, error: trackError } = await supabase
+      .from('schedule_tracks')
+      .insert({
+        user_id: userId,
+        name: target.name,
+        pdf_filename: target.pdfFilename || null
+      })
+      .select()
+      .single();
+
+    if (trackError) {
+      console.error('Failed to create schedule track:', trackError);
+      throw new Error('Failed to create schedule track');
+    }
+
+    trackId = track.id;
+    createdTrack = true;
+  }
+
+  const classesToInsert = classes.map(classData => toCatalogRow(userId, trackId, classData));
+  onProgress?.({ step: 'saving', classCount: classesToInsert.length });
+
+  let insert = supabase
+    .from('class_catalog')
+    .insert(classesToInsert)
+    .select();
+  if (signal) insert = insert.abortSignal(signal);
+  const { error } = await insert;
+
+  // Classes that made it into an existing track are kept; a track made for this save is not
+  const cancelled = !!signal?.aborted && (!!error || createdTrack);
+  if (error || cancelled) {
+    if (createdTrack) {
+      await supabase.from('schedule_tracks').delete().eq('id', trackId);
+    }
+    if (cancelled) throw new ExtractionCancelledError();
+    console.error('Database error:', error);
+    throw new Error('Failed to save extracted classes to database');
+  }
+
+  onProgress?.({ step: 'saved', classCount: classesToInsert.length });
+  return trackId;
+}
+
+/**
+ * Apply accepted re-import changes to a track. Changed rows are updated in place,
+ * touching only the fields that differ (and their provenance), so is_hidden and the row id are kept.
+ */
+export async function applyTrackDiff(
+  supabase: SupabaseClient,
+  userId: string,
+  trackId: string,
+  entries: TrackDiffEntry[]
+): Promise<void> {
+  const added = entries.flatMap(entry => (entry.kind === 'added' ? [toCatalogRow(userId, trackId, entry.incoming)] : []));
+  const removedIds = entries.flatMap(entry => (entry.kind === 'removed' ? [entry.existing.id] : []));
+
+  if (added.length > 0) {
+    const { error } = await supabase.from('class_catalog').insert(added);
+    if (error) {
+      console.error('Failed to add classes:', error);
+      throw new Error('Failed to add new classes to the schedule');
+    }
+  }
+
+  for (const entry of entries) {
+    if (entry.kind !== 'changed') continue;
+
+    const changes: Record<string, unknown> = {
+      ...toProvenanceColumns(entry.incoming),
+      updated_at: new Date().toISOString()
+    };
+    for (const { field } of entry.changes) {
+      changes[field] = entry.incoming[field] ?? null;
+    }
+
+    const { error } = await supabase
+      .from('class_catalog')
+      .update(changes)
+      .eq('id', entry.existing.id);
+
+    if (error) {
+      console.error('Failed to update class:', error);
+      throw new Error(`Failed to update ${entry.existing.course_code || entry.existing.course_name}`);
+    }
+  }
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from('class_catalog').delete().in('id', removedIds);
+    if (error) {
+      console.error('Failed to remove classes:', error);
+      throw new Error('Failed to remove dropped classes from the schedule');
+    }
+  }
+}
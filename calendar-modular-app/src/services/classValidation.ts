@@ -0,0 +1,330 @@
+import type { ClassMeeting, ExtractedClass, MeetingType } from './pdfProcessor';
+import type { SourceSpan } from './extractionProvenance';
+import { parseDays, parseTime } from './scheduleParser';
+
+/**
+ * Runtime validation for extracted classes.
+ * Model output is untrusted: every row is normalized to the shape class_catalog
+ * expects, and rows that can't be repaired are reported instead of failing the upload.
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ClassValidationIssue {
+  // Index of the row in the extractor's output
+  row: number;
+  field: keyof ExtractedClass | 'row';
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface ClassValidationResult {
+  classes: ExtractedClass[];
+  issues: ClassValidationIssue[];
+  rejectedCount: number;
+}
+
+// The calendar grid shows 7:00-22:00, so anything outside it is probably a misread time
+const EARLIEST_USUAL_START = 7 * 60;
+const LATEST_USUAL_END = 22 * 60;
+const LONGEST_USUAL_MEETING = 4 * 60;
+const MAX_CREDITS = 20;
+
+export const MEETING_TYPES: MeetingType[] = ['lecture', 'lab', 'discussion', 'seminar'];
+
+// Registrar abbreviations (LEC, LAB, DIS, REC, SEM...) and spelled-out names
+const MEETING_TYPE_PATTERNS: Array<[RegExp, MeetingType]> = [
+  [/^(lec|lecture)/i, 'lecture'],
+  [/^(lab|laboratory|lbr)/i, 'lab'],
+  [/^(dis|disc|discussion|rec|recitation|tut|tutorial)/i, 'discussion'],
+  [/^(sem|seminar)/i, 'seminar'],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toOptionalString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed && !/^(null|undefined|n\/a)$/i.test(trimmed) ? trimmed : undefined;
+}
+
+// Provenance is attached by the pipeline, so it only has to survive a round trip through review
+function toSourceSpan(value: unknown): SourceSpan | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { page, start, end, text } = value as Record<string, unknown>;
+  return typeof page === 'number' && typeof start === 'number' && typeof end === 'number' && typeof text === 'string'
+    ? { page, start, end, text }
+    : undefined;
+}
+
+/**
+ * Accept ["M","W"], ["Tu","Th"], "TTh", "mwf" or "Mon/Wed" and return M/T/W/R/F/S/U codes
+ */
+export function normalizeDays(value: unknown): string[] | null {
+  const text = Array.isArray(value)
+    ? value.filter(day => typeof day === 'string').join(' ')
+    : typeof value === 'string' ? value : '';
+  const days = parseDays(text);
+  return days && days.length > 0 ? days : null;
+}
+
+/**
+ * Map a meeting type label to one of MEETING_TYPES
+ */
+export function normalizeMeetingType(value: unknown): MeetingType | null {
+  const text = toOptionalString(value);
+  if (!text) return null;
+  return MEETING_TYPE_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+function toDateString(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Accept 2025-08-25, 8/25/2025, 8/25/25, "Aug 25, 2025" or "25 Aug 2025" and return YYYY-MM-DD
+ */
+export function normalizeDate(value: unknown): string | null {
+  const text = toOptionalString(value);
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toDateString(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) return toDateString(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match && MONTHS.includes(match[1].toLowerCase())) {
+    return toDateString(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+  }
+
+  match = text.match(/^(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/i);
+  if (match && MONTHS.includes(match[2].toLowerCase())) {
+    return toDateString(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+  }
+
+  return null;
+}
+
+/**
+ * Credit hours as a number. Variable credit ("1-3") keeps the lower bound.
+ */
+function normalizeCredits(value: unknown): number | null {
+  const text = typeof value === 'number' ? String(value) : toOptionalString(value);
+  const match = text?.match(/^(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const credits = Number(match[1]);
+  return credits <= MAX_CREDITS ? credits : null;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Normalize one of a section's extra meetings, or explain why it can't be used
+ */
+function validateMeeting(value: unknown): { meeting: ClassMeeting | null; problem?: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { meeting: null, problem: 'is not an object' };
+  }
+
+  const data = value as Record<string, unknown>;
+  const days = normalizeDays(data.days);
+  const startTime = typeof data.start_time === 'string' ? parseTime(data.start_time) : null;
+  const endTime = typeof data.end_time === 'string' ? parseTime(data.end_time) : null;
+
+  if (!days) return { meeting: null, problem: `has unrecognized days ${JSON.stringify(data.days ?? null)}` };
+  if (!startTime || !endTime) return { meeting: null, problem: 'has an invalid start or end time' };
+  if (toMinutes(endTime) <= toMinutes(startTime)) return { meeting: null, problem: `ends (${endTime}) before it starts (${startTime})` };
+
+  return {
+    meeting: {
+      days,
+      start_time: startTime,
+      end_time: endTime,
+      location: toOptionalString(data.location),
+      meeting_type: normalizeMeetingType(data.meeting_type) ?? undefined,
+    },
+  };
+}
+
+/**
+ * Validate and normalize one row. Returns null when the row has to be dropped.
+ */
+export function validateExtractedClass(row: unknown, index: number): { value: ExtractedClass | null; issues: ClassValidationIssue[] } {
+  const issues: ClassValidationIssue[] = [];
+  const issue = (field: ClassValidationIssue['field'], severity: ValidationSeverity, message: string) =>
+    issues.push({ row: index, field, severity, message });
+
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    issue('row', 'error', 'Row is not an object');
+    return { value: null, issues };
+  }
+
+  const data = row as Record<string, unknown>;
+  const courseCode = toOptionalString(data.course_code);
+  let courseName = toOptionalString(data.course_name);
+
+  if (!courseName) {
+    if (courseCode) {
+      courseName = courseCode;
+      issue('course_name', 'warning', 'Course name missing, using the course code');
+    } else {
+      issue('course_name', 'error', 'Course name is required');
+    }
+  }
+
+  const days = normalizeDays(data.days);
+  if (!days) {
+    issue('days', 'error', `Unrecognized days: ${JSON.stringify(data.days ?? null)}`);
+  }
+
+  const startTime = typeof data.start_time === 'string' ? parseTime(data.start_time) : null;
+  const endTime = typeof data.end_time === 'string' ? parseTime(data.end_time) : null;
+
+  if (!startTime) {
+    issue('start_time', 'error', `Invalid start time: ${JSON.stringify(data.start_time ?? null)}`);
+  }
+  if (!endTime) {
+    issue('end_time', 'error', `Invalid end time: ${JSON.stringify(data.end_time ?? null)}`);
+  }
+  if (startTime && endTime && toMinutes(endTime) <= toMinutes(startTime)) {
+    issue('end_time', 'error', `End time ${endTime} is not after start time ${startTime}`);
+  } else if (startTime && endTime) {
+    // Plausible but suspicious values are kept and flagged for review
+    if (toMinutes(startTime) < EARLIEST_USUAL_START) {
+      issue('start_time', 'warning', `Starts unusually early (${startTime}); check AM/PM`);
+    }
+    if (toMinutes(endTime) > LATEST_USUAL_END) {
+      issue('end_time', 'warning', `Ends unusually late (${endTime}); check AM/PM`);
+    }
+    if (toMinutes(endTime) - toMinutes(startTime) > LONGEST_USUAL_MEETING) {
+      issue('end_time', 'warning', `Meets for over ${LONGEST_USUAL_MEETING / 60} hours`);
+    }
+  }
+
+  // Registration and exam details are optional: unreadable values are dropped with a warning
+  let credits: number | undefined;
+  if (data.credits !== undefined && data.credits !== null && data.credits !== '') {
+    credits = normalizeCredits(data.credits) ?? undefined;
+    if (credits === undefined) issue('credits', 'warning', `Unrecognized credits: ${JSON.stringify(data.credits)}`);
+  }
+
+  const meetingType = normalizeMeetingType(data.meeting_type) ?? undefined;
+  if (!meetingType && toOptionalString(data.meeting_type)) {
+    issue('meeting_type', 'warning', `Unrecognized meeting type: ${JSON.stringify(data.meeting_type)}`);
+  }
+
+  const optionalDate = (field: 'term_start' | 'term_end' | 'final_exam_date') => {
+    const date = normalizeDate(data[field]) ?? undefined;
+    if (!date && toOptionalString(data[field])) issue(field, 'warning', `Unrecognized date: ${JSON.stringify(data[field])}`);
+    return date;
+  };
+  const termStart = optionalDate('term_start');
+  const termEnd = optionalDate('term_end');
+  const finalExamDate = optionalDate('final_exam_date');
+
+  if (termStart && termEnd && termEnd < termStart) {
+    issue('term_end', 'warning', `Term ends (${termEnd}) before it starts (${termStart})`);
+  }
+
+  let finalExamStart = typeof data.final_exam_start === 'string' ? parseTime(data.final_exam_start) ?? undefined : undefined;
+  let finalExamEnd = typeof data.final_exam_end === 'string' ? parseTime(data.final_exam_end) ?? undefined : undefined;
+  if (finalExamStart && finalExamEnd && toMinutes(finalExamEnd) <= toMinutes(finalExamStart)) {
+    issue('final_exam_end', 'warning', `Final exam end ${finalExamEnd} is not after its start ${finalExamStart}`);
+    finalExamStart = undefined;
+    finalExamEnd = undefined;
+  }
+  if ((finalExamStart || finalExamEnd) && !finalExamDate) {
+    issue('final_exam_date', 'warning', 'Final exam time given without a date');
+  }
+
+  // A broken extra meeting is dropped on its own; the section's other meetings still count
+  const extraMeetings: ClassMeeting[] = [];
+  if (Array.isArray(data.extra_meetings)) {
+    data.extra_meetings.forEach((value, position) => {
+      const { meeting, problem } = validateMeeting(value);
+      if (meeting) {
+        extraMeetings.push(meeting);
+      } else {
+        issue('extra_meetings', 'warning', `Meeting ${position + 2} ${problem}, skipped`);
+      }
+    });
+  }
+
+  if (!courseName || !days || !startTime || !endTime || issues.some(found => found.severity === 'error')) {
+    return { value: null, issues };
+  }
+
+  return {
+    value: {
+      course_name: courseName,
+      course_code: courseCode,
+      section: toOptionalString(data.section),
+      crn: toOptionalString(data.crn),
+      credits,
+      meeting_type: meetingType,
+      instructor: toOptionalString(data.instructor),
+      location: toOptionalString(data.location),
+      days,
+      start_time: startTime,
+      end_time: endTime,
+      extra_meetings: extraMeetings.length > 0 ? extraMeetings : undefined,
+      term_start: termStart,
+      term_end: termEnd,
+      final_exam_date: finalExamDate,
+      final_exam_start: finalExamStart,
+      final_exam_end: finalExamEnd,
+      confidence: typeof data.confidence === 'number' ? data.confidence : undefined,
+      source: toSourceSpan(data.source),
+    },
+    issues,
+  };
+}
+
+/**
+ * Validate every row from an extractor. Broken rows are dropped with an error,
+ * exact duplicates are dropped with a warning, and the rest come back normalized.
+ */
+export function validateExtractedClasses(rows: unknown[]): ClassValidationResult {
+  const classes: ExtractedClass[] = [];
+  const issues: ClassValidationIssue[] = [];
+  const seen = new Set<string>();
+  let rejectedCount = 0;
+
+  rows.forEach((row, index) => {
+    const result = validateExtractedClass(row, index);
+    issues.push(...result.issues);
+
+    if (!result.value) {
+      rejectedCount++;
+      return;
+    }
+
+    const key = [
+      result.value.course_code ?? result.value.course_name,
+      result.value.section ?? '',
+      result.value.days.join(''),
+      result.value.start_time,
+      result.value.end_time,
+    ].join('|').toLowerCase();
+
+    if (seen.has(key)) {
+      issues.push({ row: index, field: 'row', severity: 'warning', message: 'Duplicate of an earlier row, skipped' });
+      rejectedCount++;
+      return;
+    }
+
+    seen.add(key);
+    classes.push(result.value);
+  });
+
+  return { classes, issues, rejectedCount };
+}
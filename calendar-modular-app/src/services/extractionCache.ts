@@ -0,0 +1,79 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProcessPDFResult } from './pdfProcessor';
+import { extractionModel, type ExtractionConfig } from './extractionProviders';
+
+/**
+ * Extraction results cached by the PDF's SHA-256, so uploading the same registrar PDF
+ * again reuses the reviewed-before output instead of paying for (and possibly getting
+ * a different answer from) another model call. Shared by the browser and the server.
+ */
+
+/**
+ * Hex SHA-256 of a file's bytes (Web Crypto, available in browsers and Node 20)
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cached result for this user's file, or null. A failed lookup counts as a miss;
+ * the cache only saves work, so it never blocks an upload. A result extracted by a
+ * different provider or model, or with a different institution profile, is a miss too.
+ * Editing a profile clears the results extracted with it (add-extraction-cache-profile.sql).
+ */
+export async function loadCachedExtraction(
+  supabase: SupabaseClient,
+  userId: string,
+  fileHash: string,
+  config: ExtractionConfig,
+  profileId: string | null = null
+): Promise<ProcessPDFResult | null> {
+  const model = extractionModel(config);
+  let query = supabase
+    .from('extraction_cache')
+    .select('extraction_result, created_at')
+    .eq('user_id', userId)
+    .eq('file_hash', fileHash)
+    .eq('provider', config.provider);
+  query = model === null ? query.is('model', null) : query.eq('model', model);
+  query = profileId === null ? query.is('profile_id', null) : query.eq('profile_id', profileId);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error('Extraction cache lookup failed:', error);
+    return null;
+  }
+  if (!data) return null;
+
+  return { ...data.extraction_result, cachedAt: data.created_at };
+}
+
+/**
+ * Store (or replace, after a forced re-extract) the result for this file, extractor and profile
+ */
+export async function storeCachedExtraction(
+  supabase: SupabaseClient,
+  userId: string,
+  fileHash: string,
+  result: ProcessPDFResult,
+  config: ExtractionConfig,
+  profileId: string | null = null
+): Promise<void> {
+  const { error } = await supabase
+    .from('extraction_cache')
+    .upsert({
+      user_id: userId,
+      file_hash: fileHash,
+      provider: config.provider,
+      model: extractionModel(config),
+      profile_id: profileId,
+      extraction_result: { ...result, cachedAt: undefined },
+      created_at: new Date().toISOString()
+    }, { onConflict: 'user_id,file_hash,provider,model,profile_id' });
+
+  if (error) {
+    console.error('Failed to cache extraction result:', error);
+  }
+}
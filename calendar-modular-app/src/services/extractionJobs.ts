@@ -0,0 +1,165 @@
+import { supabase } from '../lib/supabase';
+import { processPDF } from './pdfProcessor';
+import { loadCachedExtraction, sha256Hex, storeCachedExtraction } from './extractionCache';
+import { getExtractionConfig } from './extractionProviders';
+import { jobFailed, jobStaged, jobStarted, requestJobCancel, updateUploadJob, type UploadJob } from './uploadJobs';
+import { loadInstitutionProfile } from './institutionProfiles';
+import { ExtractionCancelledError, throwIfCancelled, type ExtractionContext } from './extractionProgress';
+
+/**
+ * Client side of the extraction server (server/index.ts). The browser only starts
+ * a job for an uploaded PDF and watches its status on the pdf_uploads row.
+ * Without a server the browser runs the job itself, recording the same states.
+ */
+
+export type ExtractionJobStatus = 'review' | 'completed';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_WAIT_MS = 10 * 60 * 1000;
+
+/**
+ * URL of the extraction server, or undefined to extract in the browser (local development)
+ */
+export function getExtractionServerUrl(): string | undefined {
+  return import.meta.env.VITE_EXTRACTION_SERVER_URL?.replace(/\/$/, '') || undefined;
+}
+
+export interface StartExtractionOptions {
+  // Run the extractor even if this PDF has a cached result
+  force?: boolean;
+}
+
+/**
+ * Ask the extraction server to process an upload that is already in storage
+ */
+export async function startExtractionJob(uploadId: string, options: StartExtractionOptions = {}): Promise<void> {
+  const serverUrl = getExtractionServerUrl();
+  if (!serverUrl) {
+    throw new Error('Extraction server not configured. Please add VITE_EXTRACTION_SERVER_URL to your environment variables.');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Your session has expired. Please sign in again.');
+  }
+
+  const response = await fetch(`${serverUrl}/extract`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify({ uploadId, force: options.force === true })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('Extraction server error:', errorData);
+    throw new Error(errorData.error || `Extraction server error: ${response.statusText}`);
+  }
+}
+
+/**
+ * Poll the upload until the job leaves pending/processing, passing on the step the server reports.
+ * Resolves with 'review' (staged) or 'completed' (saved); throws with the job's error if it failed.
+ * Aborting the signal asks the server to stop the job and throws ExtractionCancelledError.
+ */
+export async function waitForExtraction(uploadId: string, context: ExtractionContext = {}): Promise<ExtractionJobStatus> {
+  const { signal, onProgress } = context;
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < MAX_WAIT_MS) {
+    if (signal?.aborted) {
+      await requestJobCancel(supabase, uploadId);
+      throw new ExtractionCancelledError();
+    }
+
+    const { data: upload, error } = await supabase
+      .from('pdf_uploads')
+      .select('processing_status, processing_step, error_message')
+      .eq('id', uploadId)
+      .single();
+
+    if (error) throw error;
+    if (upload.processing_step) onProgress?.(upload.processing_step);
+
+    if (upload.processing_status === 'review' || upload.processing_status === 'completed') {
+      return upload.processing_status;
+    }
+    if (upload.processing_status === 'failed') {
+      throw new Error(upload.error_message || 'Failed to process PDF');
+    }
+
+    // Wake early on cancel, so the request reaches the server straight away
+    await new Promise<void>(resolve => {
+      const wake = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', wake);
+        resolve();
+      };
+      const timeout = setTimeout(wake, POLL_INTERVAL_MS);
+      signal?.addEventListener('abort', wake);
+    });
+  }
+
+  throw new Error('Processing is taking longer than expected. The classes will be ready to review once it finishes.');
+}
+
+// On the server the job reports its steps through the row and stops between steps once cancelled
+export interface RunUploadJobOptions extends StartExtractionOptions, ExtractionContext {
+  // The PDF if it's still in memory; otherwise it's downloaded from storage
+  file?: File;
+}
+
+/**
+ * Run (or re-run) extraction for an upload and wait for it to be staged for review.
+ * Failures, cancellation included, are recorded on the row before they're thrown, so the job can be retried later.
+ */
+export async function runUploadJob(
+  upload: Pick<UploadJob, 'id' | 'user_id' | 'file_path' | 'file_hash' | 'attempts' | 'profile_id'>,
+  options: RunUploadJobOptions = {}
+): Promise<ExtractionJobStatus> {
+  if (getExtractionServerUrl()) {
+    throwIfCancelled(options.signal);
+    await startExtractionJob(upload.id, { force: options.force });
+    return waitForExtraction(upload.id, { signal: options.signal, onProgress: options.onProgress });
+  }
+
+  await updateUploadJob(supabase, upload.id, jobStarted(upload.attempts));
+
+  try {
+    throwIfCancelled(options.signal);
+    const file = options.file ?? await downloadUpload(upload.file_path);
+    const fileHash = upload.file_hash || await sha256Hex(await file.arrayBuffer());
+
+    const profileId = upload.profile_id ?? null;
+    const config = getExtractionConfig();
+    let result = options.force ? null : await loadCachedExtraction(supabase, upload.user_id, fileHash, config, profileId);
+    if (!result) {
+      const profile = profileId ? await loadInstitutionProfile(supabase, profileId) : null;
+      result = await processPDF(file, { profile, signal: options.signal, onProgress: options.onProgress });
+      await storeCachedExtraction(supabase, upload.user_id, fileHash, result, config, profileId);
+    }
+
+    await updateUploadJob(supabase, upload.id, { ...jobStaged(result), file_hash: fileHash });
+    return 'review';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to process PDF';
+    await updateUploadJob(supabase, upload.id, jobFailed(message))
+      .catch(updateError => console.error('Failed to record the failure:', updateError));
+    throw error;
+  }
+}
+
+async function downloadUpload(filePath: string): Promise<File> {
+  const { data, error } = await supabase.storage
+    .from('pdf-uploads')
+    .download(filePath);
+
+  if (error || !data) {
+    console.error('Failed to download PDF:', error);
+    throw new Error('Could not read the uploaded PDF from storage');
+  }
+
+  return new File([data], filePath.split('/').pop() || 'upload.pdf', { type: 'application/pdf' });
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createExtractionProvider } from './extractionProviders';
+import { extractClassesFromText } from './extractionPipeline';
+import { saveExtractedClasses } from './classCatalog';
+import type { ExtractionProgress } from './extractionProgress';
+
+// What the mock provider returns, as a registrar PDF would print it
+const SCHEDULE_TEXT = [
+  'CS 101 001 Introduction to Computer Science MWF 9:00 am-9:50 am Science Hall 204 Dr. Smith',
+  'MATH 151 002 Calculus I TR 10:30 am-11:45 am Math Building 110 Dr. Lee',
+].join('\n');
+
+interface RecordedCall {
+  table: string;
+  action: 'insert' | 'delete';
+  rows?: Record<string, unknown> | Record<string, unknown>[];
+  filters: Array<[string, unknown]>;
+}
+
+/**
+ * Just enough of the Supabase client for saveExtractedClasses: inserts and deletes are
+ * recorded, a new track gets the id "track-1" and a class insert can be made to fail.
+ */
+function stubSupabase(options: { classInsertError?: { message: string } } = {}) {
+  const calls: RecordedCall[] = [];
+
+  const query = (result: { data: unknown; error: unknown }, call: RecordedCall) => {
+    const builder = Object.assign(Promise.resolve(result), {
+      select: () => builder,
+      single: () => Promise.resolve(result),
+      abortSignal: () => builder,
+      eq: (column: string, value: unknown) => {
+        call.filters.push([column, value]);
+        return builder;
+      },
+    });
+    return builder;
+  };
+
+  const supabase = {
+    from: (table: string) => ({
+      insert: (rows: RecordedCall['rows']) => {
+        const call: RecordedCall = { table, action: 'insert', rows, filters: [] };
+        calls.push(call);
+        if (table === 'schedule_tracks') return query({ data: { id: 'track-1', ...rows }, error: null }, call);
+        const error = table === 'class_catalog' ? options.classInsertError ?? null : null;
+        return query({ data: error ? null : rows, error }, call);
+      },
+      delete: () => {
+        const call: RecordedCall = { table, action: 'delete', filters: [] };
+        calls.push(call);
+        return query({ data: null, error: null }, call);
+      },
+    }),
+  } as unknown as SupabaseClient;
+
+  return { supabase, calls };
+}
+
+async function extractWithMockProvider() {
+  const provider = createExtractionProvider({ provider: 'mock' });
+  return extractClassesFromText(SCHEDULE_TEXT, provider);
+}
+
+describe('mock provider through saveExtractedClasses', () => {
+  it('saves the extracted classes into a new track', async () => {
+    const { supabase, calls } = stubSupabase();
+    const steps: ExtractionProgress['step'][] = [];
+
+    const result = await extractClassesFromText(SCHEDULE_TEXT, createExtractionProvider({ provider: 'mock' }), {
+      onProgress: progress => steps.push(progress.step),
+    });
+    const trackId = await saveExtractedClasses(supabase, 'user-1', result.classes, {
+      name: 'Fall 2026',
+      pdfFilename: 'fall.pdf',
+    }, { onProgress: progress => steps.push(progress.step) });
+
+    expect(trackId).toBe('track-1');
+    expect(steps).toEqual(['parsed', 'saving', 'saved']);
+    expect(calls.map(call => `${call.action} ${call.table}`)).toEqual(['insert schedule_tracks', 'insert class_catalog']);
+    expect(calls[0].rows).toEqual({ user_id: 'user-1', name: 'Fall 2026', pdf_filename: 'fall.pdf' });
+
+    const rows = calls[1].rows as Record<string, unknown>[];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      user_id: 'user-1',
+      track_id: 'track-1',
+      course_name: 'Introduction to Computer Science',
+      course_code: 'CS 101',
+      section: '001',
+      instructor: 'Dr. Smith',
+      location: 'Science Hall 204',
+      days: ['M', 'W', 'F'],
+      start_time: '09:00',
+      end_time: '09:50',
+      extra_meetings: [],
+      is_hidden: false,
+    });
+    expect(rows[1]).toMatchObject({ course_code: 'MATH 151', days: ['T', 'R'], start_time: '10:30', end_time: '11:45' });
+  });
+
+  it('saves where each class was found in the text', async () => {
+    const { supabase, calls } = stubSupabase();
+
+    const { classes } = await extractWithMockProvider();
+    await saveExtractedClasses(supabase, 'user-1', classes, { trackId: 'existing-track' });
+
+    const [row] = calls[0].rows as Record<string, unknown>[];
+    expect(row.source_text).toBe(SCHEDULE_TEXT.split('\n')[0]);
+    expect(row.confidence).toEqual(expect.any(Number));
+  });
+
+  it('adds to an existing track without creating one', async () => {
+    const { supabase, calls } = stubSupabase();
+
+    const { classes } = await extractWithMockProvider();
+    const trackId = await saveExtractedClasses(supabase, 'user-1', classes, { trackId: 'existing-track' });
+
+    expect(trackId).toBe('existing-track');
+    expect(calls.map(call => `${call.action} ${call.table}`)).toEqual(['insert class_catalog']);
+    expect((calls[0].rows as Record<string, unknown>[]).every(row => row.track_id === 'existing-track')).toBe(true);
+  });
+
+  it('removes the new track again when the classes cannot be saved', async () => {
+    const { supabase, calls } = stubSupabase({ classInsertError: { message: 'insert failed' } });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { classes } = await extractWithMockProvider();
+    await expect(saveExtractedClasses(supabase, 'user-1', classes, { name: 'Fall 2026' }))
+      .rejects.toThrow('Failed to save extracted classes to database');
+
+    expect(calls.map(call => `${call.action} ${call.table}`))
+      .toEqual(['insert schedule_tracks', 'insert class_catalog', 'delete schedule_tracks']);
+    expect(calls[2].filters).toEqual([['id', 'track-1']]);
+    error.mockRestore();
+  });
+});
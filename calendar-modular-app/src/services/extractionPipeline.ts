@@ -0,0 +1,110 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { ProcessPDFResult } from './pdfProcessor';
+import type { ExtractionProvider } from './extractionProviders';
+import { throwIfCancelled, type ExtractionContext } from './extractionProgress';
+import { buildPageTable, tablesToText, type PageTable } from './pdfLayout';
+import { ocrPDF } from './pdfOcr';
+import { validateExtractedClasses } from './classValidation';
+import { attachProvenance, LOW_CONFIDENCE } from './extractionProvenance';
+import { groupSectionMeetings } from './sectionMeetings';
+import { applyProfileTermDates, type InstitutionProfile } from './institutionProfiles';
+
+/**
+ * PDF-to-classes pipeline shared by the browser and the extraction server.
+ * Callers open the document with their own pdf.js build and pick the provider.
+ */
+
+export interface ExtractionOptions extends ExtractionContext {
+  // Should be the profile the provider was created with; its term dates fill in missing ones
+  profile?: InstitutionProfile | null;
+}
+
+/**
+ * Extract text from a PDF, one line per table row so each time stays with its course.
+ * Falls back to OCR when the PDF has no text layer (scans, screenshots printed to PDF).
+ */
+export async function extractTextFromDocument(pdf: PDFDocumentProxy, context: ExtractionContext = {}): Promise<string> {
+  const { signal, onProgress } = context;
+  const tables: PageTable[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    throwIfCancelled(signal);
+    onProgress?.({ step: 'reading', page: i, totalPages: pdf.numPages });
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+    tables.push(buildPageTable(items, i));
+  }
+
+  if (tables.every(table => table.rows.length === 0)) {
+    console.log('No text layer found, running OCR...');
+    return tablesToText(await ocrPDF(pdf, progress => onProgress?.({ step: 'ocr', ...progress }), signal));
+  }
+
+  return tablesToText(tables);
+}
+
+/**
+ * Read the document, run the provider and validate its output, reporting each step.
+ * Throws when nothing usable comes back, or ExtractionCancelledError once the signal is aborted.
+ */
+export async function extractClassesFromDocument(
+  pdf: PDFDocumentProxy,
+  provider: ExtractionProvider,
+  options: ExtractionOptions = {}
+): Promise<ProcessPDFResult> {
+  // Step 1: Extract text from PDF
+  console.log('Extracting text from PDF...');
+  const pdfText = await extractTextFromDocument(pdf, { signal: options.signal, onProgress: options.onProgress });
+  console.log('Extracted text length:', pdfText.length);
+
+  if (!pdfText || pdfText.trim().length === 0) {
+    throw new Error('Could not read any text from the PDF, even with OCR. The file might be blank or corrupted.');
+  }
+
+  return extractClassesFromText(pdfText, provider, options);
+}
+
+/**
+ * The part of the pipeline after the text is read, for callers that already have it
+ * (the extraction eval runs on saved text as well as PDFs)
+ */
+export async function extractClassesFromText(
+  pdfText: string,
+  provider: ExtractionProvider,
+  options: ExtractionOptions = {}
+): Promise<ProcessPDFResult> {
+  const { profile, signal, onProgress } = options;
+
+  // Step 2: Hand the text to the extraction provider
+  console.log(`Extracting classes with ${provider.name} provider...`);
+  const rawClasses: unknown[] = await provider.extractClasses(pdfText, { signal, onProgress });
+  throwIfCancelled(signal);
+
+  // Step 3: Validate and normalize every row; bad rows are reported, not saved
+  const { classes, issues, rejectedCount } = validateExtractedClasses(rawClasses);
+  if (issues.length > 0) {
+    console.warn(`Validation found ${issues.length} issue(s), dropped ${rejectedCount} row(s):`, issues);
+  }
+
+  if (classes.length === 0) {
+    throw new Error(`None of the ${rawClasses.length} extracted rows were valid classes. Please check the PDF contains a class schedule.`);
+  }
+
+  // Step 4: Find each class in the source text and score how well it's supported
+  const located = attachProvenance(pdfText, applyProfileTermDates(classes, profile));
+  const lowConfidenceCount = located.filter(cls => (cls.confidence ?? 0) < LOW_CONFIDENCE).length;
+  if (lowConfidenceCount > 0) {
+    console.warn(`${lowConfidenceCount} class(es) are only weakly supported by the PDF text`);
+  }
+
+  // Step 5: Fold a section's lecture, lab and discussion rows into one class
+  const sections = groupSectionMeetings(located);
+  if (sections.length < located.length) {
+    console.log(`Grouped ${located.length} meetings into ${sections.length} sections`);
+  }
+
+  onProgress?.({ step: 'parsed', classCount: sections.length });
+  return { classes: sections, issues, rejectedCount };
+}
@@ -0,0 +1,35 @@
+/**
+ * Progress reporting and cancellation for the extraction pipeline and the save that
+ * follows it. Shared by the browser and the extraction server.
+ */
+
+export type ExtractionProgress =
+  | { step: 'reading'; page: number; totalPages: number }
+  | { step: 'ocr'; page: number; totalPages: number; progress: number }
+  // chunk and totalChunks are only set when a long document is split
+  | { step: 'requesting'; provider: string; chunk?: number; totalChunks?: number }
+  | { step: 'parsed'; classCount: number }
+  | { step: 'saving'; classCount: number }
+  | { step: 'saved'; classCount: number };
+
+/**
+ * What a caller passes down to follow (and stop) one extraction or save
+ */
+export interface ExtractionContext {
+  signal?: AbortSignal;
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+/**
+ * Thrown when the caller aborts through the context's signal, so it can be told apart from a failure
+ */
+export class ExtractionCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'ExtractionCancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new ExtractionCancelledError();
+}
@@ -0,0 +1,175 @@
+import type { ExtractedClass } from './pdfProcessor';
+import { parseDays } from './scheduleParser';
+import { splitPages } from './pdfLayout';
+
+/**
+ * Source provenance and confidence for extracted classes.
+ * Every provider (rules, LLMs, chunked or not) works from the same row-per-line text,
+ * so each class is located in that text after extraction and scored by how many of
+ * its fields the source row actually supports. A class the model made up, or mixed
+ * together from two rows, ends up with a low score.
+ */
+
+export interface SourceSpan {
+  // 1-based page number
+  page: number;
+  // Character offsets into the extracted document text
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Below this, rows are flagged for a closer look in the staging and catalog screens
+export const LOW_CONFIDENCE = 0.6;
+
+interface SourceRow {
+  page: number;
+  start: number;
+  end: number;
+  text: string;
+  // Compact form for code lookups ("CS 101" -> "CS101")
+  compact: string;
+  // Clock times in the row as h:mm on a 12-hour clock, e.g. "1:30" for both 1:30 and 13:30
+  times: Set<string>;
+  tokens: Set<string>;
+}
+
+const TIME_RE = /(\d{1,2}):(\d{2})/g;
+// Colon-less 24-hour times ("0900-1050") only count in a range, as in scheduleParser, so course numbers don't
+const MILITARY_RANGE_RE = /(?<![\d:])([01]\d|2[0-3])([0-5]\d)\s*(?:-|–|—|to)\s*([01]\d|2[0-3])([0-5]\d)(?![\d:])/gi;
+
+function clockKey(hours: number, minutes: number): string {
+  return `${hours % 12}:${String(minutes).padStart(2, '0')}`;
+}
+
+function timeKey(time: string): string | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})/);
+  return match ? clockKey(Number(match[1]), Number(match[2])) : null;
+}
+
+function compact(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Split the document text into rows with their page and offsets.
+ * Pages are joined with a blank line (empty pages included), rows with a newline.
+ */
+function splitRows(pdfText: string): SourceRow[] {
+  const rows: SourceRow[] = [];
+  let offset = 0;
+
+  splitPages(pdfText).forEach((pageText, pageIndex) => {
+    for (const line of pageText.split('\n')) {
+      if (line.trim() !== '') {
+        rows.push({
+          page: pageIndex + 1,
+          start: offset,
+          end: offset + line.length,
+          text: line,
+          compact: compact(line),
+          times: new Set([
+            ...Array.from(line.matchAll(TIME_RE), match => clockKey(Number(match[1]), Number(match[2]))),
+            ...Array.from(line.matchAll(MILITARY_RANGE_RE), match => [
+              clockKey(Number(match[1]), Number(match[2])),
+              clockKey(Number(match[3]), Number(match[4])),
+            ]).flat(),
+          ]),
+          tokens: new Set(line.toUpperCase().split(/[\s,;|]+/).filter(Boolean)),
+        });
+      }
+      offset += line.length + 1;
+    }
+    // The second newline of the page separator
+    offset += 1;
+  });
+
+  return rows;
+}
+
+/**
+ * Share of the class's fields that can be found in the given rows, 0-1
+ */
+function supportScore(cls: ExtractedClass, rows: SourceRow[]): number {
+  const compactText = rows.map(row => row.compact).join('');
+  const times = new Set(rows.flatMap(row => [...row.times]));
+  const tokens = rows.flatMap(row => [...row.tokens]);
+  let matched = 0;
+  let possible = 0;
+
+  const check = (weight: number, found: number) => {
+    possible += weight;
+    matched += weight * found;
+  };
+
+  // Times and the course code carry the most weight; they're what a misread gets wrong
+  const start = timeKey(cls.start_time);
+  const end = timeKey(cls.end_time);
+  check(2, start && times.has(start) ? 1 : 0);
+  check(2, end && times.has(end) ? 1 : 0);
+  if (cls.course_code) check(3, compactText.includes(compact(cls.course_code)) ? 1 : 0);
+  if (cls.section) check(1, tokens.includes(cls.section.toUpperCase()) ? 1 : 0);
+
+  const days = cls.days.join('');
+  check(1, tokens.some(token => parseDays(token)?.join('') === days) ? 1 : 0);
+
+  const nameWords = cls.course_name.split(/\s+/).map(compact).filter(word => word.length > 2);
+  if (nameWords.length > 0 && cls.course_name !== cls.course_code) {
+    check(2, nameWords.filter(word => compactText.includes(word)).length / nameWords.length);
+  }
+  if (cls.location) check(0.5, compactText.includes(compact(cls.location)) ? 1 : 0);
+  if (cls.instructor) check(0.5, compactText.includes(compact(cls.instructor)) ? 1 : 0);
+
+  return possible > 0 ? matched / possible : 0;
+}
+
+/**
+ * Find where each class came from and how well the source supports it.
+ * Candidates are the rows containing the class's start time, each on its own and
+ * together with the row above (course headers often sit on their own line).
+ */
+export function attachProvenance(pdfText: string, classes: ExtractedClass[]): ExtractedClass[] {
+  const rows = splitRows(pdfText);
+  const rowsByTime = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    for (const time of row.times) {
+      rowsByTime.set(time, [...(rowsByTime.get(time) ?? []), index]);
+    }
+  });
+
+  return classes.map(cls => {
+    const start = timeKey(cls.start_time);
+    const candidates = start ? rowsByTime.get(start) ?? [] : [];
+
+    let best: { rows: SourceRow[]; score: number } | null = null;
+    for (const index of candidates) {
+      const windows = [[rows[index]]];
+      if (index > 0 && rows[index - 1].page === rows[index].page) {
+        windows.push([rows[index - 1], rows[index]]);
+      }
+
+      for (const window of windows) {
+        const score = supportScore(cls, window);
+        // The wider window has to add support to win, so single rows are preferred on ties
+        if (!best || score > best.score) best = { rows: window, score };
+      }
+    }
+
+    if (!best) {
+      return { ...cls, confidence: 0, source: undefined };
+    }
+
+    const first = best.rows[0];
+    const last = best.rows[best.rows.length - 1];
+    return {
+      ...cls,
+      confidence: Math.round(best.score * 100) / 100,
+      source: {
+        page: first.page,
+        start: first.start,
+        end: last.end,
+        text: pdfText.slice(first.start, last.end),
+      },
+    };
+  });
+}
@@ -0,0 +1,388 @@
+import type { ExtractedClass } from './pdfProcessor';
+import { parseScheduleText } from './scheduleParser';
+import { withChunking } from './chunkedExtraction';
+import { profileConventions, profilePromptHints, type InstitutionProfile } from './institutionProfiles';
+import { ExtractionCancelledError, throwIfCancelled, type ExtractionContext } from './extractionProgress';
+
+/**
+ * A backend that turns schedule text into structured classes.
+ * processPDF only talks to this interface, so models can be swapped via configuration.
+ */
+export interface ExtractionProvider {
+  name: string;
+  // The context reports the model request and carries the caller's cancel signal
+  extractClasses(pdfText: string, context?: ExtractionContext): Promise<ExtractedClass[]>;
+}
+
+export type ExtractionProviderName = 'gemini' | 'openai' | 'rules' | 'mock';
+
+export interface ExtractionConfig {
+  provider: ExtractionProviderName;
+  geminiApiKey?: string;
+  geminiModel?: string;
+  openaiBaseUrl?: string;
+  openaiApiKey?: string;
+  openaiModel?: string;
+  timeoutMs?: number;
+  // Try the rule-based parser before the model and fall back to it if the model fails (default true)
+  ruleFallback?: boolean;
+  // Long documents are sent to the model in page-range chunks of at most this many characters
+  chunkChars?: number;
+  // How many chunks are extracted at once (1 = sequential)
+  chunkConcurrency?: number;
+}
+
+const DEFAULT_GEMINI_MODEL = 'gemini-flash-latest';
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Build the prompt shared by every LLM-backed provider
+ */
+function buildExtractionPrompt(pdfText: string, profile?: InstitutionProfile | null): string {
+  const hints = profilePromptHints(profile);
+  return `Extract class schedule information from this text as a JSON array.
+
+${pdfText}
+
+Each object must have:
+- course_name (string)
+- course_code (string or null)
+- section (string or null)
+- crn (string or null, the course registration number)
+- credits (number or null)
+- meeting_type ("lecture", "lab", "discussion", "seminar" or null)
+- instructor (string or null)
+- location (string or null)
+- days (array: ["M","T","W","R","F","S","U"])
+- start_time (24h format: "09:00")
+- end_time (24h format: "10:15")
+- term_start, term_end (first and last day of classes, "2025-08-25", or null)
+- final_exam_date ("2025-12-15" or null)
+- final_exam_start, final_exam_end (24h format or null)
+
+Lectures, labs and discussions of the same section are separate objects that repeat its course_code and section.
+${hints ? `\n${hints}\n` : ''}
+Return ONLY valid JSON array, no explanation.`;
+}
+
+/**
+ * Parse the raw model output into classes, tolerating markdown code fences
+ */
+function parseModelResponse(text: string): ExtractedClass[] {
+  let extractedClasses: ExtractedClass[];
+  try {
+    // Remove markdown code blocks if present
+    const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    extractedClasses = JSON.parse(cleanedText);
+  } catch {
+    console.error('Failed to parse model response:', text);
+    throw new Error('Failed to parse AI response. Please ensure the PDF contains a valid class schedule.');
+  }
+
+  if (!Array.isArray(extractedClasses)) {
+    throw new Error('Invalid response format from AI');
+  }
+
+  return extractedClasses;
+}
+
+/**
+ * POST JSON with an abort timeout so a stuck model call can't hang the upload.
+ * Aborting the caller's signal cancels the request too.
+ */
+async function postJSON(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  throwIfCancelled(signal);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    return await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new ExtractionCancelledError();
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Google Gemini generateContent provider
+ */
+export function createGeminiProvider(
+  apiKey: string | undefined,
+  model: string = DEFAULT_GEMINI_MODEL,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  profile?: InstitutionProfile | null
+): ExtractionProvider {
+  return {
+    name: 'gemini',
+    async extractClasses(pdfText, context = {}) {
+      if (!apiKey) {
+        throw new Error('Gemini API key not configured. Please add VITE_GEMINI_API_KEY to your environment variables.');
+      }
+
+      console.log('Sending to Gemini API...');
+      context.onProgress?.({ step: 'requesting', provider: 'gemini' });
+      const response = await postJSON(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+        {
+          contents: [{
+            parts: [{
+              text: buildExtractionPrompt(pdfText, profile)
+            }]
+          }],
+          generationConfig: {
+            temperature: 0.1,
+            topK: 1,
+            topP: 1,
+            maxOutputTokens: 32768,
+          }
+        },
+        {},
+        timeoutMs,
+        context.signal
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        console.error('Gemini API error:', errorData);
+        throw new Error(`Gemini API error: ${errorData.error?.message || 'Unknown error'}`);
+      }
+
+      const result = await response.json();
+      const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+
+      if (!text) {
+        console.error('No text in response. Full result:', result);
+        throw new Error('No response from Gemini API. Check console for details.');
+      }
+
+      console.log('Gemini response:', text);
+      return parseModelResponse(text);
+    }
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions provider.
+ * Works with OpenAI itself and local servers that expose /v1/chat/completions (Ollama, LM Studio, llama.cpp).
+ */
+export function createOpenAICompatibleProvider(
+  baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+  model: string = DEFAULT_OPENAI_MODEL,
+  apiKey?: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  profile?: InstitutionProfile | null
+): ExtractionProvider {
+  return {
+    name: 'openai',
+    async extractClasses(pdfText, context = {}) {
+      console.log(`Sending to OpenAI-compatible endpoint ${baseUrl} (${model})...`);
+      context.onProgress?.({ step: 'requesting', provider: 'openai' });
+      const response = await postJSON(
+        `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+        {
+          model,
+          temperature: 0.1,
+          messages: [
+            { role: 'system', content: 'You extract structured class schedules from registrar documents and reply with JSON only.' },
+            { role: 'user', content: buildExtractionPrompt(pdfText, profile) },
+          ],
+        },
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeoutMs,
+        context.signal
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('LLM API error:', errorData);
+        throw new Error(`LLM API error: ${errorData.error?.message || response.statusText || 'Unknown error'}`);
+      }
+
+      const result = await response.json();
+      const text = result.choices?.[0]?.message?.content;
+
+      if (!text) {
+        console.error('No text in response. Full result:', result);
+        throw new Error('No response from LLM API. Check console for details.');
+      }
+
+      return parseModelResponse(text);
+    }
+  };
+}
+
+const MOCK_CLASSES: ExtractedClass[] = [
+  {
+    course_name: 'Introduction to Computer Science',
+    course_code: 'CS 101',
+    section: '001',
+    instructor: 'Dr. Smith',
+    location: 'Science Hall 204',
+    days: ['M', 'W', 'F'],
+    start_time: '09:00',
+    end_time: '09:50',
+  },
+  {
+    course_name: 'Calculus I',
+    course_code: 'MATH 151',
+    section: '002',
+    instructor: 'Dr. Lee',
+    location: 'Math Building 110',
+    days: ['T', 'R'],
+    start_time: '10:30',
+    end_time: '11:45',
+  },
+];
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Ignores the input text and always returns the same classes.
+ */
+export function createMockProvider(classes: ExtractedClass[] = MOCK_CLASSES): ExtractionProvider {
+  return {
+    name: 'mock',
+    async extractClasses() {
+      // Return copies so callers can't mutate the fixture
+      return classes.map(classData => ({ ...classData, days: [...classData.days] }));
+    }
+  };
+}
+
+/**
+ * Rule-based provider: parses registrar layouts locally, no network call
+ */
+export function createRuleBasedProvider(profile?: InstitutionProfile | null): ExtractionProvider {
+  return {
+    name: 'rules',
+    async extractClasses(pdfText) {
+      const { classes } = parseScheduleText(pdfText, profileConventions(profile));
+      if (classes.length === 0) {
+        throw new Error('Could not recognize any classes in the PDF. Try an AI extraction provider instead.');
+      }
+      return classes;
+    }
+  };
+}
+
+/**
+ * Run the rule-based parser first and only call the model when it leaves rows unparsed.
+ * If the model can't be reached (missing key, quota, timeout) the parser's classes are used instead,
+ * but a cancelled extraction stays cancelled.
+ */
+export function withRuleBasedFallback(provider: ExtractionProvider, profile?: InstitutionProfile | null): ExtractionProvider {
+  return {
+    name: provider.name,
+    async extractClasses(pdfText, context = {}) {
+      const parsed = parseScheduleText(pdfText, profileConventions(profile));
+
+      if (parsed.classes.length > 0 && parsed.coverage === 1) {
+        console.log(`Rule-based parser recognized all ${parsed.classes.length} classes, skipping ${provider.name}`);
+        return parsed.classes;
+      }
+
+      try {
+        return await provider.extractClasses(pdfText, context);
+      } catch (error) {
+        if (parsed.classes.length === 0 || error instanceof ExtractionCancelledError) throw error;
+        console.warn(`${provider.name} provider failed, using ${parsed.classes.length} classes from the rule-based parser:`, error);
+        return parsed.classes;
+      }
+    }
+  };
+}
+
+/**
+ * Create the provider named in the config, tuned to the school's profile when one is given
+ */
+export function createExtractionProvider(config: ExtractionConfig, profile?: InstitutionProfile | null): ExtractionProvider {
+  const withFallback = (provider: ExtractionProvider) => {
+    const chunked = withChunking(provider, { maxChars: config.chunkChars, concurrency: config.chunkConcurrency });
+    return config.ruleFallback === false ? chunked : withRuleBasedFallback(chunked, profile);
+  };
+
+  switch (config.provider) {
+    case 'gemini':
+      return withFallback(createGeminiProvider(config.geminiApiKey, config.geminiModel, config.timeoutMs, profile));
+    case 'openai':
+      return withFallback(createOpenAICompatibleProvider(config.openaiBaseUrl, config.openaiModel, config.openaiApiKey, config.timeoutMs, profile));
+    case 'rules':
+      return createRuleBasedProvider(profile);
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown extraction provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Model the configured provider calls, or null for providers without one
+ */
+export function extractionModel(config: ExtractionConfig): string | null {
+  switch (config.provider) {
+    case 'gemini':
+      return config.geminiModel || DEFAULT_GEMINI_MODEL;
+    case 'openai':
+      return config.openaiModel || DEFAULT_OPENAI_MODEL;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the extraction config from environment variables. The browser reads the
+ * VITE_-prefixed names; the extraction server reads the same names without a prefix.
+ */
+export function extractionConfigFromEnv(
+  env: Record<string, string | undefined>,
+  prefix: string = '',
+  defaultProvider: ExtractionProviderName = 'gemini'
+): ExtractionConfig {
+  const read = (name: string) => env[`${prefix}${name}`] || undefined;
+  return {
+    provider: (read('EXTRACTION_PROVIDER') || defaultProvider) as ExtractionProviderName,
+    geminiApiKey: read('GEMINI_API_KEY'),
+    geminiModel: read('GEMINI_MODEL'),
+    openaiBaseUrl: read('OPENAI_BASE_URL'),
+    openaiApiKey: read('OPENAI_API_KEY'),
+    openaiModel: read('OPENAI_MODEL'),
+    timeoutMs: Number(read('EXTRACTION_TIMEOUT_MS')) || undefined,
+    ruleFallback: read('RULE_FALLBACK') !== 'false',
+    chunkChars: Number(read('EXTRACTION_CHUNK_CHARS')) || undefined,
+    chunkConcurrency: Number(read('EXTRACTION_CONCURRENCY')) || undefined,
+  };
+}
+
+/**
+ * Config for extracting in the browser, used when no extraction server is set.
+ * VITE_EXTRACTION_PROVIDER picks the backend and defaults to the rule-based parser.
+ * Anything read from import.meta.env is bundled into the client, so model providers and
+ * their keys are only read in development; production builds fall back to rules or mock.
+ */
+export function getExtractionConfig(): ExtractionConfig {
+  if (!import.meta.env.DEV) {
+    return { provider: import.meta.env.VITE_EXTRACTION_PROVIDER === 'mock' ? 'mock' : 'rules' };
+  }
+  return extractionConfigFromEnv(import.meta.env, 'VITE_', 'rules');
+}
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import { escapeText, foldLine, fromZone, writeICS, type IcsCalendar, type IcsEvent } from './icsWriter';
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Reads the writer's output back: unfolds continuation lines and splits name;params:value
+function parseICS(ics: string): Property[] {
+  return ics
+    .replace(/\r\n[ \t]/g, '')
+    .split('\r\n')
+    .filter(Boolean)
+    .map(line => {
+      const colon = line.indexOf(':');
+      const [name, ...params] = line.slice(0, colon).split(';');
+      return {
+        name,
+        params: Object.fromEntries(params.map(param => param.split('=') as [string, string])),
+        value: line.slice(colon + 1),
+      };
+    });
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Properties of the first component with this name
+function component(properties: Property[], name: string, index: number = 0): Property[] {
+  const begins = properties.flatMap((property, at) => (property.name === 'BEGIN' && property.value === name ? [at] : []));
+  const start = begins[index];
+  const end = properties.findIndex((property, at) => at > start && property.name === 'END' && property.value === name);
+  return properties.slice(start + 1, end);
+}
+
+const find = (properties: Property[], name: string) => properties.find(property => property.name === name);
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 12, 0, 0));
+
+const lecture: IcsEvent = {
+  uid: 'class-1@calendar-modular.app',
+  summary: 'CS 101: Intro',
+  // 9:00 New York time, in daylight saving time
+  start: new Date(2026, 7, 24, 9, 0),
+  end: new Date(2026, 7, 24, 10, 15),
+  recurrence: {
+    frequency: 'WEEKLY',
+    byDay: ['MO', 'WE'],
+    until: new Date(2026, 11, 9, 23, 59, 59),
+    exceptions: ['2026-09-07', '2026-11-25'],
+  },
+};
+
+function calendar(events: IcsEvent[], timeZone: string = 'America/New_York'): IcsCalendar {
+  return { name: 'My Class Schedule', timeZone, events };
+}
+
+describe('writeICS', () => {
+  it('wraps the events in a VCALENDAR with CRLF line endings', () => {
+    const ics = writeICS(calendar([lecture]), NOW);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+
+    const properties = parseICS(ics);
+    expect(find(properties, 'VERSION')?.value).toBe('2.0');
+    expect(find(properties, 'X-WR-TIMEZONE')?.value).toBe('America/New_York');
+  });
+
+  it('generates a VTIMEZONE with the daylight saving transitions', () => {
+    const timeZone = component(parseICS(writeICS(calendar([lecture]), NOW)), 'VTIMEZONE');
+    expect(find(timeZone, 'TZID')?.value).toBe('America/New_York');
+
+    const observances = timeZone.filter(property => property.name === 'BEGIN').map(property => property.value);
+    const starts = timeZone.filter(property => property.name === 'DTSTART').map(property => property.value);
+    const offsets = timeZone.filter(property => property.name === 'TZOFFSETTO').map(property => property.value);
+
+    expect(observances).toEqual(['STANDARD', 'DAYLIGHT', 'STANDARD']);
+    expect(starts).toEqual(['20260101T000000', '20260308T020000', '20261101T020000']);
+    expect(offsets).toEqual(['-0500', '-0400', '-0500']);
+  });
+
+  it('writes a single observance for a zone without daylight saving', () => {
+    const timeZone = component(parseICS(writeICS(calendar([lecture], 'Asia/Kolkata'), NOW)), 'VTIMEZONE');
+    const observances = timeZone.filter(property => property.name === 'BEGIN').map(property => property.value);
+
+    expect(observances).toEqual(['STANDARD']);
+    expect(find(timeZone, 'TZOFFSETTO')?.value).toBe('+0530');
+  });
+
+  it('covers the year after an open-ended repeat', () => {
+    const openEnded = { ...lecture, recurrence: { frequency: 'WEEKLY' as const, byDay: ['MO'] } };
+    const timeZone = component(parseICS(writeICS(calendar([openEnded]), NOW)), 'VTIMEZONE');
+    const starts = timeZone.filter(property => property.name === 'DTSTART').map(property => property.value);
+
+    expect(starts).toContain('20271107T020000');
+  });
+
+  it('writes local DTSTART and DTEND with the TZID', () => {
+    const event = component(parseICS(writeICS(calendar([lecture]), NOW)), 'VEVENT');
+
+    expect(find(event, 'DTSTART')).toEqual({ name: 'DTSTART', params: { TZID: 'America/New_York' }, value: '20260824T090000' });
+    expect(find(event, 'DTEND')).toEqual({ name: 'DTEND', params: { TZID: 'America/New_York' }, value: '20260824T101500' });
+    expect(find(event, 'DTSTAMP')?.value).toBe('20261019T120000Z');
+  });
+
+  it('writes times in the calendar zone rather than the host zone', () => {
+    // 9:00 in New York is 6:00 in Los Angeles
+    const event = component(parseICS(writeICS(calendar([lecture], 'America/Los_Angeles'), NOW)), 'VEVENT');
+
+    expect(find(event, 'DTSTART')?.value).toBe('20260824T060000');
+  });
+
+  it('writes RRULE UNTIL in UTC', () => {
+    const event = component(parseICS(writeICS(calendar([lecture]), NOW)), 'VEVENT');
+
+    // 23:59:59 on Dec 9 in New York (EST) is 04:59:59 UTC on Dec 10
+    expect(find(event, 'RRULE')?.value).toBe('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261210T045959Z');
+  });
+
+  it('writes COUNT and INTERVAL instead of UNTIL when given', () => {
+    const counted = { ...lecture, recurrence: { frequency: 'DAILY' as const, interval: 2, count: 5, until: new Date(2026, 11, 9) } };
+    const event = component(parseICS(writeICS(calendar([counted]), NOW)), 'VEVENT');
+
+    expect(find(event, 'RRULE')?.value).toBe('FREQ=DAILY;INTERVAL=2;COUNT=5');
+  });
+
+  it('writes EXDATE with the TZID and the start time', () => {
+    const event = component(parseICS(writeICS(calendar([lecture]), NOW)), 'VEVENT');
+
+    expect(find(event, 'EXDATE')).toEqual({
+      name: 'EXDATE',
+      params: { TZID: 'America/New_York' },
+      value: '20260907T090000,20261125T090000',
+    });
+  });
+
+  it('writes all-day events and their exceptions as dates', () => {
+    const holiday: IcsEvent = {
+      uid: 'event-1@calendar-modular.app',
+      summary: 'Study day',
+      allDay: true,
+      start: new Date(2026, 9, 1),
+      end: new Date(2026, 9, 2),
+      recurrence: { frequency: 'WEEKLY', exceptions: ['2026-10-08'] },
+    };
+    const event = component(parseICS(writeICS(calendar([holiday]), NOW)), 'VEVENT');
+
+    expect(find(event, 'DTSTART')).toEqual({ name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20261001' });
+    expect(find(event, 'DTEND')?.value).toBe('20261002');
+    expect(find(event, 'EXDATE')).toEqual({ name: 'EXDATE', params: { VALUE: 'DATE' }, value: '20261008' });
+  });
+
+  it('folds lines at 75 octets without splitting multibyte characters', () => {
+    const summary = `Séminaire d'été — ${'日本語の授業'.repeat(12)} 🎓`;
+    const ics = writeICS(calendar([{ ...lecture, summary }]), NOW);
+
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(ics).not.toContain('�');
+
+    const event = component(parseICS(ics), 'VEVENT');
+    expect(unescapeText(find(event, 'SUMMARY')!.value)).toBe(summary);
+  });
+
+  it('escapes text and reads it back unchanged', () => {
+    const description = 'Section: 001; CRN: 12345\nRoom A, B\\C';
+    const ics = writeICS(calendar([{ ...lecture, description, location: 'Hall 1, Room 2' }]), NOW);
+    const event = component(parseICS(ics), 'VEVENT');
+
+    expect(find(event, 'DESCRIPTION')?.value).toBe('Section: 001\\; CRN: 12345\\nRoom A\\, B\\\\C');
+    expect(unescapeText(find(event, 'DESCRIPTION')!.value)).toBe(description);
+    expect(unescapeText(find(event, 'LOCATION')!.value)).toBe('Hall 1, Room 2');
+  });
+
+  it('writes CATEGORIES as a list, COLOR and URL', () => {
+    const event = component(parseICS(writeICS(calendar([{
+      ...lecture,
+      categories: ['Class', 'Lab, Section 2'],
+      color: 'plum',
+      url: 'https://example.edu/cs101',
+    }]), NOW)), 'VEVENT');
+
+    const categories = find(event, 'CATEGORIES')!.value.split(/(?<!\\),/).map(unescapeText);
+    expect(categories).toEqual(['Class', 'Lab, Section 2']);
+    expect(find(event, 'COLOR')?.value).toBe('plum');
+    expect(find(event, 'URL')?.value).toBe('https://example.edu/cs101');
+  });
+
+  it('leaves optional properties out when they are not set', () => {
+    const event = component(parseICS(writeICS(calendar([{ ...lecture, recurrence: undefined }]), NOW)), 'VEVENT');
+    const names = event.map(property => property.name);
+
+    for (const name of ['RRULE', 'EXDATE', 'CATEGORIES', 'COLOR', 'URL', 'LOCATION', 'DESCRIPTION']) {
+      expect(names).not.toContain(name);
+    }
+  });
+
+  it('asks subscribers to refresh when given an interval', () => {
+    const properties = parseICS(writeICS({ ...calendar([]), refreshMinutes: 60 }, NOW));
+
+    expect(find(properties, 'REFRESH-INTERVAL')).toEqual({
+      name: 'REFRESH-INTERVAL',
+      params: { VALUE: 'DURATION' },
+      value: 'PT60M',
+    });
+  });
+});
+
+describe('fromZone', () => {
+  it('dates an instant in the given zone rather than the host zone', () => {
+    // Midnight on Oct 1 in Tokyo is still Sep 30 in New York
+    const midnightInTokyo = new Date(Date.UTC(2026, 8, 30, 15, 0));
+    const holiday: IcsEvent = {
+      uid: 'event-1@calendar-modular.app',
+      summary: 'Study day',
+      allDay: true,
+      start: fromZone(midnightInTokyo, 'Asia/Tokyo'),
+      end: fromZone(new Date(Date.UTC(2026, 9, 1, 15, 0)), 'Asia/Tokyo'),
+    };
+    const event = component(parseICS(writeICS(calendar([holiday], 'Asia/Tokyo'), NOW)), 'VEVENT');
+
+    expect(find(event, 'DTSTART')?.value).toBe('20261001');
+    expect(find(event, 'DTEND')?.value).toBe('20261002');
+  });
+
+  it('keeps the wall-clock time', () => {
+    expect(fromZone(new Date(Date.UTC(2026, 9, 19, 12, 30)), 'Asia/Kolkata')).toEqual(new Date(2026, 9, 19, 18, 0));
+  });
+});
+
+describe('escapeText', () => {
+  it('drops control characters other than tab', () => {
+    expect(escapeText('a\u0000b\u0007c\td\u007F')).toBe('abc\td');
+  });
+
+  it('turns every kind of line break into \\n', () => {
+    expect(escapeText('a\r\nb\rc\nd')).toBe('a\\nb\\nc\\nd');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+  });
+
+  it('starts continuation lines with a space that counts toward 75 octets', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`).split('\r\n');
+
+    expect(folded[0]).toHaveLength(75);
+    expect(folded.slice(1).every(line => line.startsWith(' ') && line.length <= 75)).toBe(true);
+    expect(folded.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+});
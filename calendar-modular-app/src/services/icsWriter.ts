@@ -0,0 +1,316 @@
+/**
+ * iCalendar (RFC 5545) writer. Times are written as local times in one named time zone,
+ * with a VTIMEZONE generated from the platform's zone data, so repeating events keep their
+ * wall-clock time across daylight saving changes in every calendar app.
+ */
+
+export interface IcsRecurrence {
+  frequency: 'DAILY' | 'WEEKLY';
+  interval?: number;
+  // RRULE weekdays (MO, TU...)
+  byDay?: string[];
+  count?: number | null;
+  until?: Date | null;
+  // Dates (YYYY-MM-DD) of skipped occurrences; they're written with the event's start time
+  exceptions?: string[];
+}
+
+export interface IcsEvent {
+  // Globally unique, and the same on every export so calendar apps update instead of duplicating
+  uid: string;
+  start: Date;
+  end: Date;
+  allDay?: boolean;
+  summary: string;
+  location?: string;
+  description?: string;
+  categories?: string[];
+  // A CSS3 color name, as RFC 7986 requires
+  color?: string;
+  url?: string;
+  recurrence?: IcsRecurrence;
+}
+
+export interface IcsCalendar {
+  name: string;
+  // IANA zone the local times are written in, e.g. America/New_York
+  timeZone: string;
+  events: IcsEvent[];
+  // How often subscribed calendar apps should fetch it again
+  refreshMinutes?: number;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+// Tab is the only control character a content line may hold
+function isAllowedCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code === 9 || (code >= 32 && code !== 127);
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks; other control
+ * characters aren't allowed in a content line and are dropped
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .split('')
+    .filter(isAllowedCharacter)
+    .join('');
+}
+
+/**
+ * Fold a content line so no line is longer than 75 octets of UTF-8, without splitting a character
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      // The space that marks a continuation counts toward its line
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n');
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, Number(part.value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+}
+
+// Minutes the zone is ahead of UTC at this instant
+function offsetMinutes(date: Date, timeZone: string): number {
+  const clock = wallClock(date, timeZone);
+  const asUTC = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return Math.round((asUTC - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock time falls at in the zone. The time is read from the Date's local
+ * fields, so class times built on a server in another zone land on the user's hour.
+ */
+export function atZone(local: Date, timeZone: string): Date {
+  const wall = Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), local.getHours(), local.getMinutes(), local.getSeconds());
+  // The second pass settles times near an offset change
+  const guess = wall - offsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - offsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+/**
+ * The reverse of atZone: a Date whose local fields hold the instant's wall-clock time in the zone,
+ * so an all-day event stored as an instant gets the date the user saw.
+ */
+export function fromZone(instant: Date, timeZone: string): Date {
+  const clock = wallClock(instant, timeZone);
+  return new Date(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+function formatUTC(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+function formatLocal(date: Date, timeZone: string): string {
+  const clock = wallClock(date, timeZone);
+  return `${clock.year}${pad(clock.month)}${pad(clock.day)}T${pad(clock.hour)}${pad(clock.minute)}${pad(clock.second)}`;
+}
+
+// All-day dates are read from the local fields; fromZone puts a stored instant's date there
+function formatDay(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+interface Transition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+/**
+ * The zone's offset changes between the start of one year and the end of another
+ */
+function zoneTransitions(timeZone: string, fromYear: number, toYear: number): Transition[] {
+  const transitions: Transition[] = [];
+  const DAY = 86400000;
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let offset = offsetMinutes(new Date(Date.UTC(fromYear, 0, 1)), timeZone);
+
+  for (let time = Date.UTC(fromYear, 0, 1); time < end; time += DAY) {
+    const next = offsetMinutes(new Date(time + DAY), timeZone);
+    if (next === offset) continue;
+
+    // Narrow the change down to the minute
+    let before = time;
+    let after = time + DAY;
+    while (after - before > 60000) {
+      const middle = before + Math.floor((after - before) / 120000) * 60000;
+      if (offsetMinutes(new Date(middle), timeZone) === offset) before = middle;
+      else after = middle;
+    }
+
+    transitions.push({ at: new Date(after), offsetFrom: offset, offsetTo: next });
+    offset = next;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE for the zone, with every offset change in the years the events cover
+ */
+function timeZoneLines(timeZone: string, fromYear: number, toYear: number): string[] {
+  const initial = offsetMinutes(new Date(Date.UTC(fromYear, 0, 1)), timeZone);
+  const transitions = zoneTransitions(timeZone, fromYear, toYear);
+  const offsets = [initial, ...transitions.map(transition => transition.offsetTo)];
+  const daylight = (offset: number) => offset > Math.min(...offsets);
+
+  const observance = (offsetFrom: number, offsetTo: number, localStart: string) => {
+    const kind = daylight(offsetTo) ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(initial, initial, `${fromYear}0101T000000`),
+    // DTSTART of a change is the local time just before it, in the old offset
+    ...transitions.flatMap(transition => observance(
+      transition.offsetFrom,
+      transition.offsetTo,
+      formatUTC(new Date(transition.at.getTime() + transition.offsetFrom * 60000)).slice(0, -1)
+    )),
+    'END:VTIMEZONE',
+  ];
+}
+
+function recurrenceLines(recurrence: IcsRecurrence, start: Date, allDay: boolean, timeZone: string): string[] {
+  const parts = [`FREQ=${recurrence.frequency}`];
+  if (recurrence.interval && recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+  if (recurrence.byDay && recurrence.byDay.length > 0) parts.push(`BYDAY=${recurrence.byDay.join(',')}`);
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`);
+  // With a TZID start, UNTIL has to be in UTC
+  else if (recurrence.until) parts.push(`UNTIL=${allDay ? formatDay(recurrence.until) : formatUTC(recurrence.until)}`);
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  const exceptions = (recurrence.exceptions ?? []).map(date => date.replace(/-/g, ''));
+  if (exceptions.length > 0) {
+    const startTime = formatLocal(start, timeZone).slice(8);
+    lines.push(allDay
+      ? `EXDATE;VALUE=DATE:${exceptions.join(',')}`
+      : `EXDATE;TZID=${timeZone}:${exceptions.map(date => date + startTime).join(',')}`);
+  }
+  return lines;
+}
+
+function eventLines(event: IcsEvent, timeZone: string, timestamp: string): string[] {
+  const allDay = event.allDay ?? false;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${timestamp}`,
+    allDay ? `DTSTART;VALUE=DATE:${formatDay(event.start)}` : `DTSTART;TZID=${timeZone}:${formatLocal(event.start, timeZone)}`,
+    allDay ? `DTEND;VALUE=DATE:${formatDay(event.end)}` : `DTEND;TZID=${timeZone}:${formatLocal(event.end, timeZone)}`,
+  ];
+
+  if (event.recurrence) lines.push(...recurrenceLines(event.recurrence, event.start, allDay, timeZone));
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  if (event.color) lines.push(`COLOR:${event.color}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push('STATUS:CONFIRMED', 'SEQUENCE:0', 'END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Serialize a calendar as an iCalendar file, with CRLF line endings and folded lines
+ */
+export function writeICS(calendar: IcsCalendar, now: Date = new Date()): string {
+  // The zone's rules are written out for every year an event or repeat touches
+  const years = calendar.events.flatMap(event => {
+    const until = event.recurrence?.until;
+    const openEnded = event.recurrence && !until && !event.recurrence.count;
+    return [event.start.getFullYear(), (until ?? event.end).getFullYear(), ...(openEnded ? [now.getFullYear() + 1] : [])];
+  });
+  const fromYear = years.length > 0 ? Math.min(...years) : now.getFullYear();
+  const toYear = years.length > 0 ? Math.max(...years) : now.getFullYear();
+  const timestamp = formatUTC(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Calendar Modular//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeText(calendar.name)}`,
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    `X-WR-TIMEZONE:${calendar.timeZone}`,
+    // RFC 7986 and the older name Outlook reads
+    ...(calendar.refreshMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`]
+      : []),
+    ...timeZoneLines(calendar.timeZone, fromYear, toYear),
+    ...calendar.events.flatMap(event => eventLines(event, calendar.timeZone, timestamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,144 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ExtractedClass } from './pdfProcessor';
+import { parseDays, type ScheduleConventions } from './scheduleParser';
+
+/**
+ * Institution profiles: how one school prints its schedules. Picked on upload and
+ * used by both the model prompt and the rule-based parser, so everyone at the same
+ * school gets the same reading of the same PDF. Shared by the browser and the server.
+ */
+
+export type TimeFormat = '12h' | '24h';
+
+export type ProfileColumn =
+  | 'course_code' | 'section' | 'crn' | 'course_name' | 'meeting_type' | 'credits'
+  | 'days' | 'time' | 'location' | 'instructor';
+
+export interface InstitutionProfile {
+  id: string;
+  name: string;
+  created_by?: string | null;
+  prompt_hints: string | null;
+  // Registrar abbreviation -> day code (M/T/W/R/F/S/U)
+  day_abbreviations: Record<string, string> | null;
+  // null = work it out from the PDF
+  time_format: TimeFormat | null;
+  column_order: ProfileColumn[] | null;
+  term_start: string | null;
+  term_end: string | null;
+}
+
+export const PROFILE_COLUMNS: Array<{ column: ProfileColumn; label: string }> = [
+  { column: 'course_code', label: 'course code' },
+  { column: 'section', label: 'section' },
+  { column: 'crn', label: 'CRN' },
+  { column: 'course_name', label: 'title' },
+  { column: 'meeting_type', label: 'meeting type' },
+  { column: 'credits', label: 'credits' },
+  { column: 'days', label: 'days' },
+  { column: 'time', label: 'time' },
+  { column: 'location', label: 'room' },
+  { column: 'instructor', label: 'instructor' },
+];
+
+const DAY_NAMES: Record<string, string> = {
+  M: 'Monday', T: 'Tuesday', W: 'Wednesday', R: 'Thursday', F: 'Friday', S: 'Saturday', U: 'Sunday',
+};
+
+/**
+ * Read abbreviations written as "Th=R, H=Thursday". Entries whose day can't be
+ * recognized are returned in invalid so the form can point at them.
+ */
+export function parseDayAbbreviations(text: string): { value: Record<string, string>; invalid: string[] } {
+  const value: Record<string, string> = {};
+  const invalid: string[] = [];
+
+  for (const entry of text.split(/[,;\n]+/).map(part => part.trim()).filter(Boolean)) {
+    const [abbreviation, day] = entry.split(/\s*[=:]\s*/);
+    const codes = day ? parseDays(day) : null;
+    if (abbreviation && codes?.length === 1) {
+      value[abbreviation] = codes[0];
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { value, invalid };
+}
+
+export function formatDayAbbreviations(abbreviations: Record<string, string> | null): string {
+  return Object.entries(abbreviations ?? {}).map(([abbreviation, day]) => `${abbreviation}=${day}`).join(', ');
+}
+
+/**
+ * The parts of a profile the rule-based parser understands
+ */
+export function profileConventions(profile: InstitutionProfile | null | undefined): ScheduleConventions {
+  if (!profile) return {};
+  const order = profile.column_order ?? [];
+  return {
+    dayAbbreviations: profile.day_abbreviations ?? undefined,
+    timeFormat: profile.time_format,
+    daysAfterTime: order.includes('days') && order.includes('time') && order.indexOf('days') > order.indexOf('time'),
+  };
+}
+
+/**
+ * The profile as prompt lines for the model, or '' when it adds nothing
+ */
+export function profilePromptHints(profile: InstitutionProfile | null | undefined): string {
+  if (!profile) return '';
+  const lines: string[] = [];
+
+  const abbreviations = Object.entries(profile.day_abbreviations ?? {});
+  if (abbreviations.length > 0) {
+    lines.push(`- Day abbreviations: ${abbreviations.map(([abbreviation, day]) => `"${abbreviation}" = ${day} (${DAY_NAMES[day]})`).join(', ')}`);
+  }
+  if (profile.time_format === '24h') {
+    lines.push('- Times are printed on a 24-hour clock');
+  } else if (profile.time_format === '12h') {
+    lines.push('- Times are printed on a 12-hour clock; a time without AM/PM between 1:00 and 6:59 is in the afternoon');
+  }
+  if (profile.column_order && profile.column_order.length > 0) {
+    const labels = profile.column_order.map(column => PROFILE_COLUMNS.find(entry => entry.column === column)?.label ?? column);
+    lines.push(`- Columns usually appear in this order: ${labels.join(', ')}`);
+  }
+  if (profile.term_start && profile.term_end) {
+    lines.push(`- Unless a class lists its own dates, the term runs from ${profile.term_start} to ${profile.term_end}`);
+  }
+  if (profile.prompt_hints?.trim()) {
+    lines.push(profile.prompt_hints.trim());
+  }
+
+  return lines.length > 0 ? `About ${profile.name} schedules:\n${lines.join('\n')}` : '';
+}
+
+/**
+ * Fill in the profile's term dates on classes that don't list their own
+ */
+export function applyProfileTermDates(classes: ExtractedClass[], profile: InstitutionProfile | null | undefined): ExtractedClass[] {
+  if (!profile?.term_start && !profile?.term_end) return classes;
+  return classes.map(cls => ({
+    ...cls,
+    term_start: cls.term_start ?? profile.term_start ?? undefined,
+    term_end: cls.term_end ?? profile.term_end ?? undefined,
+  }));
+}
+
+/**
+ * Load one profile. A profile that was deleted since the upload counts as none.
+ */
+export async function loadInstitutionProfile(supabase: SupabaseClient, profileId: string): Promise<InstitutionProfile | null> {
+  const { data, error } = await supabase
+    .from('institution_profiles')
+    .select('*')
+    .eq('id', profileId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading institution profile:', error);
+    throw error;
+  }
+
+  return data;
+}
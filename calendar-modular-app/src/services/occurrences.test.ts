@@ -0,0 +1,318 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toDateKey, type ClassTermRules } from './academicTerms';
+import {
+  classMeetingSeries,
+  classOccurrences,
+  eventOccurrences,
+  examOccurrence,
+  parseRecurrenceRule,
+  type OccurrenceClass,
+  type OccurrenceEvent
+} from './occurrences';
+
+// Tests run in America/New_York (see vite.config.ts); DST ends Nov 1 2026 and starts Mar 8 2026
+
+const lecture: OccurrenceClass = {
+  id: 'class-1',
+  days: ['M', 'W'],
+  start_time: '09:00',
+  end_time: '10:15',
+  location: 'Hall 1',
+};
+
+const withLab: OccurrenceClass = {
+  ...lecture,
+  extra_meetings: [{ days: ['F'], start_time: '14:00', end_time: '16:00', meeting_type: 'lab', location: 'Lab 2' }],
+};
+
+const fall: ClassTermRules = {
+  start: '2026-08-24',
+  end: '2026-12-09',
+  breaks: [
+    { id: 'labor', term_id: 'fall', name: 'Labor Day', start_date: '2026-09-07', end_date: '2026-09-07' },
+    { id: 'thanksgiving', term_id: 'fall', name: 'Thanksgiving', start_date: '2026-11-25', end_date: '2026-11-27' },
+  ],
+};
+
+const noTerm: ClassTermRules = { start: null, end: null, breaks: [] };
+
+const range = (start: string, end: string) => ({
+  start: new Date(`${start}T00:00:00`),
+  end: new Date(`${end}T23:59:59`),
+});
+
+const days = (occurrences: { start: Date }[]) => occurrences.map(occurrence => toDateKey(occurrence.start));
+
+function event(overrides: Partial<OccurrenceEvent>): OccurrenceEvent {
+  return {
+    id: 'event-1',
+    start_time: new Date(2026, 9, 6, 18, 0).toISOString(),
+    end_time: new Date(2026, 9, 6, 19, 30).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('classOccurrences', () => {
+  it('repeats each meeting on its weekdays in the range', () => {
+    const occurrences = classOccurrences(lecture, noTerm, range('2026-10-05', '2026-10-18'));
+
+    expect(days(occurrences)).toEqual(['2026-10-05', '2026-10-07', '2026-10-12', '2026-10-14']);
+    expect(occurrences[0]).toMatchObject({ id: 'class-1-0-2026-10-05', kind: 'meeting', meetingIndex: 0 });
+    expect(occurrences[0].start).toEqual(new Date(2026, 9, 5, 9, 0));
+    expect(occurrences[0].end).toEqual(new Date(2026, 9, 5, 10, 15));
+  });
+
+  it('gives extra meetings their own days, times and index', () => {
+    const labs = classOccurrences(withLab, noTerm, range('2026-10-05', '2026-10-11'))
+      .filter(occurrence => occurrence.meetingIndex === 1);
+
+    expect(labs).toHaveLength(1);
+    expect(labs[0].id).toBe('class-1-1-2026-10-09');
+    expect(labs[0].meeting?.location).toBe('Lab 2');
+    expect(labs[0].start).toEqual(new Date(2026, 9, 9, 14, 0));
+  });
+
+  it('starts on the first day of the term and stops after the last', () => {
+    const start = classOccurrences(lecture, fall, range('2026-08-17', '2026-08-30'));
+    const end = classOccurrences(lecture, fall, range('2026-12-07', '2026-12-20'));
+
+    expect(days(start)).toEqual(['2026-08-24', '2026-08-26']);
+    expect(days(end)).toEqual(['2026-12-07', '2026-12-09']);
+  });
+
+  it('lets the class meet on the term start and end dates themselves', () => {
+    const rules = { ...fall, start: '2026-08-26', end: '2026-12-07' };
+
+    expect(days(classOccurrences(lecture, rules, range('2026-08-24', '2026-08-30')))).toEqual(['2026-08-26']);
+    expect(days(classOccurrences(lecture, rules, range('2026-12-07', '2026-12-13')))).toEqual(['2026-12-07']);
+  });
+
+  it('skips single holidays and multi-day breaks', () => {
+    const september = classOccurrences(lecture, fall, range('2026-09-07', '2026-09-13'));
+    const thanksgiving = classOccurrences(withLab, fall, range('2026-11-23', '2026-11-29'));
+
+    expect(days(september)).toEqual(['2026-09-09']);
+    // Wednesday's lecture and Friday's lab both fall in the break
+    expect(days(thanksgiving)).toEqual(['2026-11-23']);
+  });
+
+  it('keeps the wall-clock time through the week daylight saving ends', () => {
+    const [before, after] = classOccurrences({ ...lecture, days: ['M'] }, noTerm, range('2026-10-26', '2026-11-08'));
+
+    expect(before.start.getHours()).toBe(9);
+    expect(after.start.getHours()).toBe(9);
+    // 9:00 EDT is 13:00 UTC, 9:00 EST is 14:00 UTC
+    expect(before.start.getUTCHours()).toBe(13);
+    expect(after.start.getUTCHours()).toBe(14);
+  });
+
+  it('keeps the wall-clock time through the week daylight saving starts', () => {
+    const occurrences = classOccurrences({ ...lecture, days: ['S', 'U'] }, noTerm, range('2026-03-07', '2026-03-08'));
+
+    expect(occurrences.map(occurrence => occurrence.start.getHours())).toEqual([9, 9]);
+    // The clocks skip an hour in between
+    expect(occurrences[1].start.getTime() - occurrences[0].start.getTime()).toBe(23 * 3600000);
+  });
+
+  it('adds the final exam only when it falls in the range, whatever the term', () => {
+    const withExam = { ...lecture, final_exam_date: '2026-12-14', final_exam_start: '08:00', final_exam_end: '10:00' };
+
+    const inRange = classOccurrences(withExam, fall, range('2026-12-14', '2026-12-14'));
+    expect(inRange).toHaveLength(1);
+    expect(inRange[0]).toMatchObject({ id: 'class-1-final', kind: 'exam', meetingIndex: null, meeting: null });
+    expect(inRange[0].start).toEqual(new Date(2026, 11, 14, 8, 0));
+
+    expect(classOccurrences(withExam, fall, range('2026-12-15', '2026-12-20'))).toEqual([]);
+  });
+});
+
+describe('examOccurrence', () => {
+  it('falls back to the class times', () => {
+    const exam = examOccurrence({ ...lecture, final_exam_date: '2026-12-14' });
+
+    expect(exam?.start).toEqual(new Date(2026, 11, 14, 9, 0));
+    expect(exam?.end).toEqual(new Date(2026, 11, 14, 10, 15));
+  });
+
+  it('is null without an exam date', () => {
+    expect(examOccurrence(lecture)).toBeNull();
+  });
+});
+
+describe('classMeetingSeries', () => {
+  it('anchors each meeting on its first real meeting of the term', () => {
+    const [primary, lab] = classMeetingSeries(withLab, { ...fall, start: '2026-08-25' }, new Date(2026, 9, 19));
+
+    expect(primary.start).toEqual(new Date(2026, 7, 26, 9, 0));
+    expect(primary.end).toEqual(new Date(2026, 7, 26, 10, 15));
+    expect(lab.start).toEqual(new Date(2026, 7, 28, 14, 0));
+  });
+
+  it('does not anchor on a holiday', () => {
+    const rules = { ...fall, start: '2026-09-07' };
+    const [series] = classMeetingSeries({ ...lecture, days: ['M'] }, rules, new Date(2026, 7, 1));
+
+    expect(toDateKey(series.start)).toBe('2026-09-14');
+    expect(series.exceptions).not.toContain('2026-09-07');
+  });
+
+  it('runs until the end of the last day of the term', () => {
+    const [series] = classMeetingSeries(lecture, fall, new Date(2026, 9, 19));
+
+    expect(series.until).toEqual(new Date(2026, 11, 9, 23, 59, 59));
+  });
+
+  it('lists the meetings each break cancels', () => {
+    const [primary, lab] = classMeetingSeries(withLab, fall, new Date(2026, 9, 19));
+
+    expect(primary.exceptions).toEqual(['2026-09-07', '2026-11-25']);
+    expect(lab.exceptions).toEqual(['2026-11-27']);
+  });
+
+  it('starts from the given day, with no end, when the term is unknown', () => {
+    const [series] = classMeetingSeries(lecture, noTerm, new Date(2026, 9, 20, 15, 0));
+
+    expect(series.start).toEqual(new Date(2026, 9, 21, 9, 0));
+    expect(series.until).toBeNull();
+    expect(series.exceptions).toEqual([]);
+  });
+
+  it('is empty once the term is over', () => {
+    expect(classMeetingSeries(lecture, fall, new Date(2027, 0, 5))).toEqual([]);
+  });
+
+  it('drops a meeting with no day inside the term', () => {
+    const rules = { start: '2026-08-24', end: '2026-08-25', breaks: [] };
+
+    expect(classMeetingSeries(withLab, rules, new Date(2026, 7, 1)).map(series => series.meetingIndex)).toEqual([0]);
+  });
+});
+
+describe('parseRecurrenceRule', () => {
+  it('reads a weekly rule with weekdays, interval and count', () => {
+    expect(parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6')).toEqual({
+      frequency: 'WEEKLY',
+      interval: 2,
+      byDay: ['T', 'R'],
+      count: 6,
+      until: null,
+      exceptions: [],
+    });
+  });
+
+  it('accepts a rule without the RRULE: prefix', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY')?.frequency).toBe('DAILY');
+  });
+
+  it('reads a date-only UNTIL as the end of that day', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261105')?.until).toEqual(new Date(2026, 10, 5, 23, 59, 59));
+  });
+
+  it('reads a UTC UNTIL as that instant', () => {
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20261105T150000Z')?.until).toEqual(new Date(Date.UTC(2026, 10, 5, 15)));
+  });
+
+  it('collects EXDATE lines as dates', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY\nEXDATE:20261110,20261117T180000\nEXDATE;TZID=America/New_York:20261124T180000');
+
+    expect(rule?.exceptions).toEqual(['2026-11-10', '2026-11-17', '2026-11-24']);
+  });
+
+  it('rejects rules outside the supported subset', () => {
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toBeNull();
+    expect(parseRecurrenceRule('FREQ=WEEKLY;BYSETPOS=1')).toBeNull();
+    expect(parseRecurrenceRule('EXDATE:20261110')).toBeNull();
+  });
+});
+
+describe('eventOccurrences', () => {
+  const october = range('2026-10-01', '2026-10-31');
+
+  it('returns a one-off event once, under its own id, when it overlaps the range', () => {
+    expect(eventOccurrences(event({}), october)).toEqual([{
+      id: 'event-1',
+      eventId: 'event-1',
+      recurring: false,
+      start: new Date(2026, 9, 6, 18, 0),
+      end: new Date(2026, 9, 6, 19, 30),
+    }]);
+    expect(eventOccurrences(event({}), range('2026-11-01', '2026-11-30'))).toEqual([]);
+  });
+
+  it('ignores a rule when the event is not marked recurring', () => {
+    expect(eventOccurrences(event({ recurrence_rule: 'FREQ=DAILY' }), october)).toHaveLength(1);
+  });
+
+  it('shows an unsupported rule as the single first occurrence', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: 'FREQ=MONTHLY' }), october);
+
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].recurring).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('repeats a rule with no end through the whole range', () => {
+    // Oct 6 2026 is a Tuesday
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: 'RRULE:FREQ=WEEKLY' }), october);
+
+    expect(days(occurrences)).toEqual(['2026-10-06', '2026-10-13', '2026-10-20', '2026-10-27']);
+    expect(occurrences[1]).toMatchObject({ id: 'event-1-2026-10-13', eventId: 'event-1', recurring: true });
+  });
+
+  it('keeps repeating into later ranges when there is no end', () => {
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: 'FREQ=WEEKLY' }), range('2027-06-01', '2027-06-14'));
+
+    expect(days(occurrences)).toEqual(['2027-06-01', '2027-06-08']);
+  });
+
+  it('stops after COUNT occurrences, counting skipped dates', () => {
+    const rule = 'RRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4\nEXDATE:20261013';
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: rule }), october);
+
+    expect(days(occurrences)).toEqual(['2026-10-06', '2026-10-08', '2026-10-15']);
+  });
+
+  it('stops after UNTIL, including an occurrence on that day', () => {
+    const rule = 'FREQ=DAILY;UNTIL=20261009';
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: rule }), october);
+
+    expect(days(occurrences)).toEqual(['2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09']);
+  });
+
+  it('repeats every INTERVAL days', () => {
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: 'FREQ=DAILY;INTERVAL=3;COUNT=4' }), october);
+
+    expect(days(occurrences)).toEqual(['2026-10-06', '2026-10-09', '2026-10-12', '2026-10-15']);
+  });
+
+  it('repeats every INTERVAL weeks, on all of the rule weekdays', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TU,TH';
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: rule }), october);
+
+    // Monday Oct 5 is before the first occurrence; the weeks of Oct 12 and Oct 26 are skipped
+    expect(days(occurrences)).toEqual(['2026-10-06', '2026-10-08', '2026-10-19', '2026-10-20', '2026-10-22']);
+  });
+
+  it('keeps the wall-clock time and duration across daylight saving', () => {
+    const occurrences = eventOccurrences(event({ recurring: true, recurrence_rule: 'FREQ=WEEKLY' }), range('2026-10-25', '2026-11-08'));
+
+    expect(days(occurrences)).toEqual(['2026-10-27', '2026-11-03']);
+    expect(occurrences.map(occurrence => occurrence.start.getHours())).toEqual([18, 18]);
+    expect(occurrences.map(occurrence => occurrence.end.getTime() - occurrence.start.getTime())).toEqual([90 * 60000, 90 * 60000]);
+  });
+
+  it('includes an occurrence that started before the range and is still going', () => {
+    const overnight = event({
+      recurring: true,
+      recurrence_rule: 'FREQ=DAILY;COUNT=2',
+      start_time: new Date(2026, 9, 6, 22, 0).toISOString(),
+      end_time: new Date(2026, 9, 7, 2, 0).toISOString(),
+    });
+
+    expect(days(eventOccurrences(overnight, range('2026-10-07', '2026-10-07')))).toEqual(['2026-10-06', '2026-10-07']);
+  });
+});
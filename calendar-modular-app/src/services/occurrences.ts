@@ -0,0 +1,332 @@
+import type { ClassMeeting } from './pdfProcessor';
+import { classMeetings } from './sectionMeetings';
+import { meetsOn, toDateKey, type ClassTermRules } from './academicTerms';
+
+/**
+ * Occurrences: the one place class rows and recurring events become dated meetings.
+ * The calendar view and every export expand through here, so they agree on which days
+ * a class meets. Times are local wall-clock times built from the date, so a 9:00 class
+ * stays at 9:00 across a daylight saving change.
+ */
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+// Day codes by JavaScript weekday (0 = Sunday)
+export const DAY_CODES = ['U', 'M', 'T', 'W', 'R', 'F', 'S'];
+
+// The class_catalog columns expansion needs
+export interface OccurrenceClass {
+  id: string;
+  days: string[];
+  start_time: string;
+  end_time: string;
+  location?: string | null;
+  meeting_type?: ClassMeeting['meeting_type'] | null;
+  extra_meetings?: ClassMeeting[] | null;
+  final_exam_date?: string | null;
+  final_exam_start?: string | null;
+  final_exam_end?: string | null;
+}
+
+// The events columns expansion needs
+export interface OccurrenceEvent {
+  id: string;
+  start_time: string;
+  end_time: string;
+  recurring?: boolean | null;
+  recurrence_rule?: string | null;
+}
+
+export interface ClassOccurrence {
+  // Stable for the same class, meeting and date
+  id: string;
+  kind: 'meeting' | 'exam';
+  // Index into classMeetings(); null for the final exam
+  meetingIndex: number | null;
+  meeting: ClassMeeting | null;
+  start: Date;
+  end: Date;
+}
+
+export interface EventOccurrence {
+  // The event's own id for a one-off event, so edits can be written back to the row
+  id: string;
+  eventId: string;
+  recurring: boolean;
+  start: Date;
+  end: Date;
+}
+
+// One meeting of a class as a weekly series, for exports that write recurrence rules
+export interface MeetingSeries {
+  meetingIndex: number;
+  meeting: ClassMeeting;
+  // The first real meeting
+  start: Date;
+  end: Date;
+  // End of the term's last day; null when the term end is unknown
+  until: Date | null;
+  // Dates (YYYY-MM-DD) of the meetings a holiday or break cancels
+  exceptions: string[];
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY';
+
+/**
+ * The subset of RFC 5545 recurrence the events table uses: daily or weekly rules with
+ * INTERVAL, BYDAY, COUNT and UNTIL, plus EXDATE lines for skipped dates
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // Day codes (M, T, W...); empty means the weekday of the first occurrence
+  byDay: string[];
+  count: number | null;
+  until: Date | null;
+  // YYYY-MM-DD dates with no occurrence
+  exceptions: string[];
+}
+
+const RFC_DAYS: Record<string, string> = { SU: 'U', MO: 'M', TU: 'T', WE: 'W', TH: 'R', FR: 'F', SA: 'S' };
+
+/**
+ * The RRULE weekday for a day code (M -> MO)
+ */
+export function rfcDay(dayCode: string): string | undefined {
+  return Object.keys(RFC_DAYS).find(rfc => RFC_DAYS[rfc] === dayCode);
+}
+
+/**
+ * A local date at an HH:MM time
+ */
+export function atTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, 0, 0);
+}
+
+function parseDateKey(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function startOfLocalDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function nextDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+}
+
+// Calendar days between two dates, ignoring the hour lost or gained to DST
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / 86400000
+  );
+}
+
+/**
+ * Read an iCalendar date or date-time (20251127, 20251127T090000 or 20251127T140000Z)
+ */
+export function parseICalDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+/**
+ * Parse an events.recurrence_rule ("RRULE:FREQ=WEEKLY;BYDAY=MO,WE" with optional EXDATE lines).
+ * Null when the rule uses something outside the supported subset.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule | null {
+  const rule: RecurrenceRule = { frequency: 'WEEKLY', interval: 1, byDay: [], count: null, until: null, exceptions: [] };
+  let hasRule = false;
+
+  for (const line of text.split(/\r?\n/).map(part => part.trim()).filter(Boolean)) {
+    if (line.startsWith('EXDATE')) {
+      const values = line.slice(line.indexOf(':') + 1).split(',');
+      for (const value of values) {
+        const date = parseICalDate(value);
+        if (date) rule.exceptions.push(toDateKey(date));
+      }
+      continue;
+    }
+
+    hasRule = true;
+    for (const part of line.replace(/^RRULE:/, '').split(';')) {
+      const [name, value = ''] = part.split('=');
+      switch (name) {
+        case 'FREQ':
+          if (value !== 'DAILY' && value !== 'WEEKLY') return null;
+          rule.frequency = value;
+          break;
+        case 'INTERVAL':
+          rule.interval = Math.max(1, Number(value) || 1);
+          break;
+        case 'BYDAY': {
+          const days = value.split(',').map(day => RFC_DAYS[day]);
+          if (days.some(day => !day)) return null;
+          rule.byDay = days;
+          break;
+        }
+        case 'COUNT':
+          rule.count = Number(value) || null;
+          break;
+        case 'UNTIL': {
+          const until = parseICalDate(value);
+          if (!until) return null;
+          // A date-only UNTIL includes that whole day
+          rule.until = value.includes('T') ? until : new Date(until.getFullYear(), until.getMonth(), until.getDate(), 23, 59, 59);
+          break;
+        }
+        case 'WKST':
+          break;
+        default:
+          return null;
+      }
+    }
+  }
+
+  return hasRule ? rule : null;
+}
+
+/**
+ * Final exam of a class, on its own date whatever the term says
+ */
+export function examOccurrence(cls: OccurrenceClass): ClassOccurrence | null {
+  if (!cls.final_exam_date) return null;
+  const date = parseDateKey(cls.final_exam_date);
+  return {
+    id: `${cls.id}-final`,
+    kind: 'exam',
+    meetingIndex: null,
+    meeting: null,
+    start: atTime(date, cls.final_exam_start || cls.start_time),
+    end: atTime(date, cls.final_exam_end || cls.end_time),
+  };
+}
+
+/**
+ * Every meeting of a class in the range, inside its term and not on its holidays or breaks,
+ * plus the final exam when it falls in the range
+ */
+export function classOccurrences(cls: OccurrenceClass, rules: ClassTermRules, range: DateRange): ClassOccurrence[] {
+  const occurrences: ClassOccurrence[] = [];
+  const meetings = classMeetings(cls);
+
+  for (let day = startOfLocalDay(range.start); day <= range.end; day = nextDay(day)) {
+    if (!meetsOn(rules, day)) continue;
+    const dayCode = DAY_CODES[day.getDay()];
+    const dateKey = toDateKey(day);
+
+    meetings.forEach((meeting, meetingIndex) => {
+      if (!meeting.days.includes(dayCode)) return;
+      occurrences.push({
+        id: `${cls.id}-${meetingIndex}-${dateKey}`,
+        kind: 'meeting',
+        meetingIndex,
+        meeting,
+        start: atTime(day, meeting.start_time),
+        end: atTime(day, meeting.end_time),
+      });
+    });
+  }
+
+  const exam = examOccurrence(cls);
+  if (exam && toDateKey(exam.start) >= toDateKey(range.start) && exam.start <= range.end) {
+    occurrences.push(exam);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Each meeting of a class as a weekly series from its first real meeting of the term (or of
+ * the days from `from` when the term start is unknown) to the end of the term. Nothing when the
+ * term ended before `from`, or a meeting has no date left.
+ */
+export function classMeetingSeries(cls: OccurrenceClass, rules: ClassTermRules, from: Date): MeetingSeries[] {
+  const termEnd = rules.end ? parseDateKey(rules.end) : null;
+  if (termEnd && termEnd < startOfLocalDay(from)) return [];
+
+  const first = rules.start ? parseDateKey(rules.start) : startOfLocalDay(from);
+  // With no term end, a year ahead is as far as the first meeting can be
+  const last = termEnd ?? new Date(first.getFullYear() + 1, first.getMonth(), first.getDate());
+  const until = termEnd ? new Date(termEnd.getFullYear(), termEnd.getMonth(), termEnd.getDate(), 23, 59, 59) : null;
+
+  return classMeetings(cls).flatMap((meeting, meetingIndex) => {
+    let firstMeeting: Date | null = null;
+    const exceptions: string[] = [];
+
+    for (let day = first; day <= last; day = nextDay(day)) {
+      if (!meeting.days.includes(DAY_CODES[day.getDay()])) continue;
+      if (meetsOn(rules, day)) {
+        firstMeeting ??= day;
+        if (!termEnd) break;
+      } else if (firstMeeting) {
+        exceptions.push(toDateKey(day));
+      }
+    }
+
+    if (!firstMeeting) return [];
+    return [{
+      meetingIndex,
+      meeting,
+      start: atTime(firstMeeting, meeting.start_time),
+      end: atTime(firstMeeting, meeting.end_time),
+      until,
+      exceptions,
+    }];
+  });
+}
+
+/**
+ * A personal event in the range: once, or every time its recurrence rule repeats it.
+ * A rule outside the supported subset is shown as the single first occurrence.
+ */
+export function eventOccurrences(event: OccurrenceEvent, range: DateRange): EventOccurrence[] {
+  const start = new Date(event.start_time);
+  const end = new Date(event.end_time);
+  const rule = event.recurring && event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+
+  if (!rule) {
+    if (event.recurring && event.recurrence_rule) {
+      console.warn(`Unsupported recurrence rule on event ${event.id}:`, event.recurrence_rule);
+    }
+    return start <= range.end && end >= range.start
+      ? [{ id: event.id, eventId: event.id, recurring: false, start, end }]
+      : [];
+  }
+
+  const duration = end.getTime() - start.getTime();
+  const byDay = rule.byDay.length > 0 ? rule.byDay : [DAY_CODES[start.getDay()]];
+  const occurrences: EventOccurrence[] = [];
+  let count = 0;
+
+  for (let day = startOfLocalDay(start); day <= range.end; day = nextDay(day)) {
+    const elapsed = daysBetween(start, day);
+    const matches = rule.frequency === 'DAILY'
+      ? elapsed % rule.interval === 0
+      // Weeks start on Monday, as RRULE's default WKST does
+      : byDay.includes(DAY_CODES[day.getDay()]) &&
+        Math.floor((elapsed + ((start.getDay() + 6) % 7)) / 7) % rule.interval === 0;
+    if (!matches) continue;
+
+    const occurrenceStart = new Date(day.getFullYear(), day.getMonth(), day.getDate(), start.getHours(), start.getMinutes(), start.getSeconds());
+    if (rule.until && occurrenceStart > rule.until) break;
+    if (rule.count !== null && count >= rule.count) break;
+    count++;
+
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + duration);
+    const dateKey = toDateKey(occurrenceStart);
+    if (rule.exceptions.includes(dateKey) || occurrenceEnd < range.start) continue;
+
+    occurrences.push({ id: `${event.id}-${dateKey}`, eventId: event.id, recurring: true, start: occurrenceStart, end: occurrenceEnd });
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,202 @@
+/**
+ * Rebuild table rows and columns from positioned PDF text.
+ * pdf.js hands back text items in drawing order with their coordinates; registrar
+ * tables only make sense again once items sharing a baseline are put back on one row.
+ */
+
+// Subset of pdf.js TextItem that layout needs
+export interface PositionedText {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export interface TableCell {
+  text: string;
+  x: number;
+  column: number;
+}
+
+export interface TableRow {
+  y: number;
+  cells: TableCell[];
+}
+
+export interface PageTable {
+  pageNumber: number;
+  columnCount: number;
+  rows: TableRow[];
+}
+
+interface PlacedText {
+  text: string;
+  x: number;
+  y: number;
+  right: number;
+  fontSize: number;
+}
+
+const MAX_COLUMNS = 12;
+
+// Pages are separated by one blank line; rows never contain one, so empty pages still count
+const PAGE_SEPARATOR = '\n\n';
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function toPlaced(item: PositionedText): PlacedText | null {
+  if (!item.str || !item.str.trim()) return null;
+  const [, , c, d, x, y] = item.transform;
+  const fontSize = Math.hypot(c, d) || item.height || 10;
+  return { text: item.str, x, y, right: x + item.width, fontSize };
+}
+
+/**
+ * Group items whose baselines are within half a line of each other
+ */
+function groupIntoLines(items: PlacedText[]): PlacedText[][] {
+  // PDF y grows upwards, so sort top-to-bottom by descending y
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const lines: PlacedText[][] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= Math.max(2, line[0].fontSize * 0.5)) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Merge items on a line into cells; a gap wider than about one character width starts a new cell
+ */
+function splitIntoCells(line: PlacedText[]): Array<{ text: string; x: number }> {
+  const cells: Array<{ text: string; x: number; right: number }> = [];
+
+  for (const item of line) {
+    const cell = cells[cells.length - 1];
+    const gap = cell ? item.x - cell.right : Infinity;
+
+    if (cell && gap < item.fontSize * 0.9) {
+      const needsSpace = gap > item.fontSize * 0.1 && !cell.text.endsWith(' ') && !item.text.startsWith(' ');
+      cell.text += (needsSpace ? ' ' : '') + item.text;
+      cell.right = Math.max(cell.right, item.right);
+    } else {
+      cells.push({ text: item.text, x: item.x, right: item.right });
+    }
+  }
+
+  return cells
+    .map(cell => ({ text: cell.text.replace(/\s+/g, ' ').trim(), x: cell.x }))
+    .filter(cell => cell.text);
+}
+
+/**
+ * Find column anchors by clustering the left edges of every cell on the page
+ */
+function findColumns(cellXs: number[], tolerance: number): number[] {
+  const anchors: number[] = [];
+  for (const x of [...cellXs].sort((a, b) => a - b)) {
+    if (anchors.length === 0 || x - anchors[anchors.length - 1] > tolerance) {
+      anchors.push(x);
+    }
+  }
+  return anchors;
+}
+
+function columnFor(x: number, anchors: number[], tolerance: number): number {
+  let column = 0;
+  anchors.forEach((anchor, index) => {
+    if (anchor <= x + tolerance) column = index;
+  });
+  return column;
+}
+
+/**
+ * Lay out one page of pdf.js text items as a table
+ */
+export function buildPageTable(items: PositionedText[], pageNumber: number): PageTable {
+  const placed = items.map(toPlaced).filter((item): item is PlacedText => item !== null);
+  if (placed.length === 0) {
+    return { pageNumber, columnCount: 0, rows: [] };
+  }
+
+  const fontSize = median(placed.map(item => item.fontSize));
+  const lines = groupIntoLines(placed).map(line => ({
+    y: line[0].y,
+    cells: splitIntoCells(line),
+  }));
+
+  const anchors = findColumns(lines.flatMap(line => line.cells.map(cell => cell.x)), fontSize);
+  // Ragged, non-tabular pages produce too many anchors to be useful
+  const tabular = anchors.length > 1 && anchors.length <= MAX_COLUMNS;
+
+  const rows: TableRow[] = [];
+  for (const line of lines) {
+    const cells = line.cells.map((cell, index) => ({
+      ...cell,
+      column: tabular ? columnFor(cell.x, anchors, fontSize * 0.5) : index,
+    }));
+
+    // A row of plain words right under another row, starting past the first column, is a wrapped cell (e.g. a long course title)
+    const previous = rows[rows.length - 1];
+    const isWrapped = previous
+      && tabular
+      && previous.y - line.y <= fontSize * 1.6
+      && cells.every(cell => cell.column > 0 && !/\d/.test(cell.text))
+      && cells.every(cell => previous.cells.some(prevCell => prevCell.column === cell.column));
+
+    if (isWrapped) {
+      for (const cell of cells) {
+        const target = previous.cells.find(prevCell => prevCell.column === cell.column);
+        if (target) target.text = `${target.text} ${cell.text}`;
+      }
+      previous.y = line.y;
+      continue;
+    }
+
+    rows.push({ y: line.y, cells });
+  }
+
+  return {
+    pageNumber,
+    columnCount: tabular ? anchors.length : Math.max(...rows.map(row => row.cells.length)),
+    rows,
+  };
+}
+
+/**
+ * Split document text back into its pages, in order (1-based page N is index N - 1)
+ */
+export function splitPages(text: string): string[] {
+  return text.split(PAGE_SEPARATOR);
+}
+
+/**
+ * Flatten tables to row-delimited text: one line per row, tab between columns.
+ * Empty columns are kept so values stay aligned with their headers.
+ * Pages are joined so splitPages gets the same pages back.
+ */
+export function tablesToText(tables: PageTable[]): string {
+  return tables
+    .map(table => table.rows
+      .map(row => {
+        const columns: string[] = [];
+        for (const cell of row.cells) {
+          while (columns.length < cell.column) columns.push('');
+          columns[cell.column] = columns[cell.column] ? `${columns[cell.column]} ${cell.text}` : cell.text;
+        }
+        return columns.join('\t').trimEnd();
+      })
+      .filter(line => line !== '')
+      .join('\n'))
+    .join(PAGE_SEPARATOR);
+}
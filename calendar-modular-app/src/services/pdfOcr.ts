@@ -0,0 +1,111 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { ImageLike, Line } from 'tesseract.js';
+import { buildPageTable, type PageTable, type PositionedText } from './pdfLayout';
+import { throwIfCancelled } from './extractionProgress';
+
+/**
+ * OCR fallback for scanned or screenshot PDFs that have no text layer.
+ * Each page is rendered to a canvas and recognized by tesseract.js, which runs in its own Web Worker
+ * (or worker thread when the extraction server runs it in Node).
+ */
+
+export interface OcrProgress {
+  page: number;
+  totalPages: number;
+  // Overall progress across all pages, 0-1
+  progress: number;
+}
+
+// Render at 2x so small table text is large enough for reliable recognition
+const OCR_SCALE = 2;
+
+// pdf.js creates DOM canvases in the browser and @napi-rs/canvas ones in Node
+interface CanvasFactory {
+  create(width: number, height: number): { canvas: HTMLCanvasElement };
+}
+
+interface NodeCanvas {
+  toBuffer(mimeType: 'image/png'): ImageLike;
+}
+
+async function renderPageToCanvas(pdf: PDFDocumentProxy, pageNumber: number): Promise<{ canvas: HTMLCanvasElement; pageHeight: number }> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const { canvas } = (pdf.canvasFactory as CanvasFactory).create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  await page.render({ canvas, viewport }).promise;
+
+  return { canvas, pageHeight: viewport.height / OCR_SCALE };
+}
+
+/**
+ * tesseract.js reads canvases directly in the browser but needs encoded image bytes in Node
+ */
+function canvasToImage(canvas: HTMLCanvasElement): ImageLike {
+  return typeof document === 'undefined' ? (canvas as unknown as NodeCanvas).toBuffer('image/png') : canvas;
+}
+
+/**
+ * Convert recognized lines back to PDF-space text items so the regular table layout can be reused
+ */
+function linesToTextItems(lines: Line[], pageHeight: number): PositionedText[] {
+  return lines.flatMap(line => {
+    const fontSize = (line.bbox.y1 - line.bbox.y0) / OCR_SCALE;
+    const y = pageHeight - line.bbox.y1 / OCR_SCALE;
+
+    return line.words.map(word => ({
+      str: word.text,
+      transform: [fontSize, 0, 0, fontSize, word.bbox.x0 / OCR_SCALE, y],
+      width: (word.bbox.x1 - word.bbox.x0) / OCR_SCALE,
+      height: fontSize,
+    }));
+  });
+}
+
+/**
+ * Recognize every page of a PDF and return the same tables text extraction produces.
+ * An aborted signal stops before the next page.
+ */
+export async function ocrPDF(
+  pdf: PDFDocumentProxy,
+  onProgress?: (progress: OcrProgress) => void,
+  signal?: AbortSignal
+): Promise<PageTable[]> {
+  // Loaded on demand so the OCR engine isn't part of the main bundle
+  const { createWorker } = await import('tesseract.js');
+
+  const totalPages = pdf.numPages;
+  let currentPage = 1;
+
+  const worker = await createWorker('eng', undefined, {
+    logger: message => {
+      if (message.status === 'recognizing text') {
+        onProgress?.({
+          page: currentPage,
+          totalPages,
+          progress: (currentPage - 1 + message.progress) / totalPages,
+        });
+      }
+    },
+  });
+
+  try {
+    const tables: PageTable[] = [];
+
+    for (currentPage = 1; currentPage <= totalPages; currentPage++) {
+      throwIfCancelled(signal);
+      onProgress?.({ page: currentPage, totalPages, progress: (currentPage - 1) / totalPages });
+
+      const { canvas, pageHeight } = await renderPageToCanvas(pdf, currentPage);
+      const { data } = await worker.recognize(canvasToImage(canvas), {}, { blocks: true });
+      const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+
+      tables.push(buildPageTable(linesToTextItems(lines, pageHeight), currentPage));
+    }
+
+    onProgress?.({ page: totalPages, totalPages, progress: 1 });
+    return tables;
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -1,5 +1,8 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { supabase } from '../lib/supabase';
+import { createExtractionProvider, getExtractionConfig } from './extractionProviders';
+import { extractClassesFromDocument, type ExtractionOptions } from './extractionPipeline';
+import type { ClassValidationIssue } from './classValidation';
+import type { SourceSpan } from './extractionProvenance';
 
 // Configure PDF.js worker - use the npm package version
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -7,185 +10,64 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   import.meta.url
 ).toString();
 
+export type MeetingType = 'lecture' | 'lab' | 'discussion' | 'seminar';
+
+// One weekly meeting of a section
+export interface ClassMeeting {
+  days: string[];
+  start_time: string;
+  end_time: string;
+  location?: string;
+  meeting_type?: MeetingType;
+}
+
 export interface ExtractedClass {
   course_name: string;
   course_code?: string;
   section?: string;
+  // Registration number used to enroll in the section
+  crn?: string;
+  credits?: number;
+  meeting_type?: MeetingType;
   instructor?: string;
   location?: string;
   days: string[];
   start_time: string;
   end_time: string;
+  // Meetings besides the one above, e.g. a lab at a different time
+  extra_meetings?: ClassMeeting[];
+  // Dates are YYYY-MM-DD, times 24h HH:MM
+  term_start?: string;
+  term_end?: string;
+  final_exam_date?: string;
+  final_exam_start?: string;
+  final_exam_end?: string;
+  // How well the source text supports the parsed fields, 0-1
+  confidence?: number;
+  // Where in the extracted document text the class was found
+  source?: SourceSpan;
 }
 
-/**
- * Extract text from PDF file
- */
-async function extractTextFromPDF(file: File): Promise<string> {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  
-  let fullText = '';
-  
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const textContent = await page.getTextContent();
-    const pageText = textContent.items
-      .map((item: any) => item.str)
-      .join(' ');
-    fullText += pageText + '\n';
-  }
-  
-  return fullText;
+export interface ProcessPDFResult {
+  classes: ExtractedClass[];
+  // Per-row problems found while validating the extractor's output
+  issues: ClassValidationIssue[];
+  rejectedCount: number;
+  // Set when the result was reused from extraction_cache rather than freshly extracted
+  cachedAt?: string;
 }
 
 /**
- * Process a PDF file and extract class schedule information using Google Gemini
+ * Process a PDF file in the browser with the provider configured in VITE_ variables.
+ * Only used when no extraction server is configured (local development); in production
+ * the server runs the same pipeline so model keys never reach the client.
+ * Nothing is saved here; the result is staged for review and committed with saveExtractedClasses.
  */
-export async function processPDF(file: File, userId: string): Promise<ExtractedClass[]> {
+export async function processPDF(file: File, options: ExtractionOptions = {}): Promise<ProcessPDFResult> {
   try {
-    // Step 1: Extract text from PDF
-    console.log('Extracting text from PDF...');
-    const pdfText = await extractTextFromPDF(file);
-    console.log('Extracted text length:', pdfText.length);
-    
-    if (!pdfText || pdfText.trim().length === 0) {
-      throw new Error('Could not extract text from PDF. The PDF might be image-based or corrupted.');
-    }
-    
-    const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-    
-    if (!API_KEY) {
-      throw new Error('Gemini API key not configured. Please add VITE_GEMINI_API_KEY to your environment variables.');
-    }
-    
-    // Step 2: Create the prompt for class schedule extraction
-    const userPrompt = `Extract class schedule information from this text as a JSON array.
-
-${pdfText}
-
-Each object must have:
-- course_name (string)
-- course_code (string or null)
-- section (string or null)
-- instructor (string or null)
-- location (string or null)
-- days (array: ["M","T","W","R","F","S","U"])
-- start_time (24h format: "09:00")
-- end_time (24h format: "10:15")
-
-Return ONLY valid JSON array, no explanation.`;
-
-    // Step 3: Call Gemini API
-    console.log('Sending to Gemini API...');
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
-    
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-flash-latest:generateContent?key=${API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: userPrompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.1,
-            topK: 1,
-            topP: 1,
-            maxOutputTokens: 32768,
-          }
-        }),
-        signal: controller.signal
-      }
-    );
-    
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Gemini API error:', errorData);
-      throw new Error(`Gemini API error: ${errorData.error?.message || 'Unknown error'}`);
-    }
-
-    const result = await response.json();
-    console.log('Full Gemini API response:', JSON.stringify(result, null, 2));
-    
-    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!text) {
-      console.error('No text in response. Full result:', result);
-      throw new Error('No response from Gemini API. Check console for details.');
-    }
-
-    console.log('Gemini response:', text);
-    
-    // Parse the JSON response
-    let extractedClasses: ExtractedClass[];
-    try {
-      // Remove markdown code blocks if present
-      const cleanedText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      extractedClasses = JSON.parse(cleanedText);
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response:', text);
-      throw new Error('Failed to parse AI response. Please ensure the PDF contains a valid class schedule.');
-    }
-
-    // Validate the response
-    if (!Array.isArray(extractedClasses)) {
-      throw new Error('Invalid response format from AI');
-    }
-
-    // Step 4: Create a schedule track for this PDF
-    const trackName = `${file.name.replace('.pdf', '')} - ${new Date().toLocaleDateString()}`;
-    
-    const { data: track, error: trackError } = await supabase
-      .from('schedule_tracks')
-      .insert({
-        user_id: userId,
-        name: trackName,
-        pdf_filename: file.name
-      })
-      .select()
-      .single();
-
-    if (trackError) {
-      console.error('Failed to create schedule track:', trackError);
-      throw new Error('Failed to create schedule track');
-    }
-
-    // Step 5: Save classes to database with track reference
-    const classesToInsert = extractedClasses.map(classData => ({
-      user_id: userId,
-      track_id: track.id,
-      course_name: classData.course_name,
-      course_code: classData.course_code || null,
-      section: classData.section || null,
-      instructor: classData.instructor || null,
-      location: classData.location || null,
-      days: classData.days,
-      start_time: classData.start_time,
-      end_time: classData.end_time,
-      is_hidden: false
-    }));
-
-    const { error } = await supabase
-      .from('class_catalog')
-      .insert(classesToInsert)
-      .select();
-
-    if (error) {
-      console.error('Database error:', error);
-      throw new Error('Failed to save extracted classes to database');
-    }
-
-    return extractedClasses;
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    return await extractClassesFromDocument(pdf, createExtractionProvider(getExtractionConfig(), options.profile), options);
   } catch (error) {
     console.error('Error processing PDF:', error);
     throw error;
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { loadTermsByTrack, termRulesFor } from './academicTerms';
+import { classMeetingSeries, examOccurrence, parseRecurrenceRule, rfcDay } from './occurrences';
+import { atZone, fromZone, type IcsCalendar, type IcsEvent, type IcsRecurrence } from './icsWriter';
+
+/**
+ * A user's visible schedule as an iCalendar, for the one-off export and the subscription feed.
+ * Class times are wall-clock times in the calendar's zone; personal events are stored instants,
+ * and all-day ones are dated in the calendar's zone.
+ */
+
+// Colors calendar apps show for each kind of event (CSS3 names, close to the calendar view's)
+const CATEGORY_COLORS: { [key: string]: string } = {
+  class: 'plum',
+  exam: 'lightcoral',
+  personal: 'gold',
+  work: 'orange',
+  study: 'mediumpurple',
+  gym: 'tomato',
+  social: 'hotpink',
+};
+
+const uid = (id: string) => `${id}@calendar-modular.app`;
+
+const categoryLabel = (category: string) => category.charAt(0).toUpperCase() + category.slice(1);
+
+/**
+ * An events row's recurrence rule in the writer's terms; null when it doesn't repeat
+ * or uses something the occurrence engine doesn't support
+ */
+function eventRecurrence(event: { recurring?: boolean | null; recurrence_rule?: string | null }): IcsRecurrence | null {
+  const rule = event.recurring && event.recurrence_rule ? parseRecurrenceRule(event.recurrence_rule) : null;
+  if (!rule) return null;
+
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    byDay: rule.byDay.flatMap(day => rfcDay(day) ?? []),
+    count: rule.count,
+    until: rule.until,
+    exceptions: rule.exceptions,
+  };
+}
+
+/**
+ * Visible classes (each meeting a weekly series through its term, days off left out),
+ * their final exams and all personal events
+ */
+export async function buildScheduleCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  // IANA zone the user's classes meet in
+  timeZone: string
+): Promise<IcsCalendar> {
+  const { data: classes, error: classError } = await supabase
+    .from('class_catalog')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_hidden', false);
+
+  if (classError) {
+    console.error('Error loading classes for the calendar:', classError);
+    throw classError;
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('events')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (eventsError) {
+    console.error('Error loading events for the calendar:', eventsError);
+    throw eventsError;
+  }
+
+  // Same term dates and days off as the calendar view
+  const termsByTrack = await loadTermsByTrack(supabase, userId);
+  const calendarEvents: IcsEvent[] = [];
+
+  classes.forEach(classItem => {
+    const termRules = termRulesFor(classItem, termsByTrack);
+    const title = classItem.course_code
+      ? `${classItem.course_code}: ${classItem.course_name}`
+      : classItem.course_name;
+
+    // One event series per meeting, so a section's lab keeps its own day, time and room
+    classMeetingSeries(classItem, termRules, new Date()).forEach(({ meeting, meetingIndex, start, end, until, exceptions }) => {
+      calendarEvents.push({
+        uid: uid(meetingIndex === 0 ? classItem.id : `${classItem.id}-${meetingIndex}`),
+        summary: meeting.meeting_type && meeting.meeting_type !== 'lecture'
+          ? `${title} (${meeting.meeting_type})`
+          : title,
+        start: atZone(start, timeZone),
+        end: atZone(end, timeZone),
+        location: meeting.location || undefined,
+        description: [
+          classItem.section && `Section: ${classItem.section}`,
+          classItem.crn && `CRN: ${classItem.crn}`,
+          classItem.credits !== null && classItem.credits !== undefined && `Credits: ${classItem.credits}`,
+          classItem.instructor && `Instructor: ${classItem.instructor}`,
+          termRules.start && termRules.end && `Term: ${termRules.start} to ${termRules.end}`,
+        ].filter(Boolean).join('\n'),
+        categories: ['Class'],
+        color: CATEGORY_COLORS.class,
+        recurrence: {
+          frequency: 'WEEKLY',
+          byDay: meeting.days.flatMap(day => rfcDay(day) ?? []),
+          until: until && atZone(until, timeZone),
+          exceptions,
+        },
+      });
+    });
+
+    // Final exam as a one-off event
+    const exam = examOccurrence(classItem);
+    if (exam) {
+      calendarEvents.push({
+        uid: uid(exam.id),
+        summary: `Final Exam: ${title}`,
+        start: atZone(exam.start, timeZone),
+        end: atZone(exam.end, timeZone),
+        location: classItem.location || undefined,
+        description: classItem.section ? `Section: ${classItem.section}` : undefined,
+        categories: ['Exam'],
+        color: CATEGORY_COLORS.exam,
+      });
+    }
+  });
+
+  // Personal events, repeating ones with their own recurrence rule
+  events.forEach(event => {
+    const allDay = event.all_day ?? false;
+    // An all-day event falls on its date in the user's zone, wherever the feed is built
+    const day = (value: string) => fromZone(new Date(value), timeZone);
+
+    calendarEvents.push({
+      uid: uid(event.id),
+      summary: event.title,
+      start: allDay ? day(event.start_time) : new Date(event.start_time),
+      end: allDay ? day(event.end_time) : new Date(event.end_time),
+      allDay,
+      location: event.location || undefined,
+      description: event.description || undefined,
+      categories: event.category ? [categoryLabel(event.category)] : undefined,
+      color: event.category ? CATEGORY_COLORS[event.category] : undefined,
+      recurrence: eventRecurrence(event) ?? undefined,
+    });
+  });
+
+  return { name: 'My Class Schedule', timeZone, events: calendarEvents };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseDays, parseScheduleText, parseTimeRange } from './scheduleParser';
+import { withRuleBasedFallback, type ExtractionProvider } from './extractionProviders';
+
+describe('parseDays', () => {
+  it.each([
+    ['MWF', ['M', 'W', 'F']],
+    ['TTh', ['T', 'R']],
+    ['TR', ['T', 'R']],
+    ['TuTh', ['T', 'R']],
+    ['Tue/Thu', ['T', 'R']],
+    ['mwf', ['M', 'W', 'F']],
+  ])('reads %s', (text, days) => {
+    expect(parseDays(text)).toEqual(days);
+  });
+
+  it('uses the school abbreviations before the built-in ones', () => {
+    expect(parseDays('MH', { H: 'R' })).toEqual(['M', 'R']);
+    expect(parseDays('Mo Mi', { Mo: 'M', Mi: 'W' })).toEqual(['M', 'W']);
+  });
+
+  it('returns null for text that is not a day string', () => {
+    expect(parseDays('Hall')).toBeNull();
+    expect(parseDays('')).toBeNull();
+  });
+});
+
+describe('parseTimeRange', () => {
+  it('reads AM/PM ranges', () => {
+    expect(parseTimeRange('9:00 AM', '10:15 AM')).toEqual({ start_time: '09:00', end_time: '10:15' });
+    expect(parseTimeRange('11:00', '12:15pm')).toEqual({ start_time: '11:00', end_time: '12:15' });
+  });
+
+  it('reads bare 1:00-6:59 as afternoon', () => {
+    expect(parseTimeRange('1:00', '2:15')).toEqual({ start_time: '13:00', end_time: '14:15' });
+    expect(parseTimeRange('6:00', '6:50')).toEqual({ start_time: '18:00', end_time: '18:50' });
+    expect(parseTimeRange('7:00', '7:50')).toEqual({ start_time: '07:00', end_time: '07:50' });
+  });
+
+  it('keeps bare times as they are on a 24-hour clock', () => {
+    expect(parseTimeRange('1:00', '2:15', '24h')).toEqual({ start_time: '01:00', end_time: '02:15' });
+    expect(parseTimeRange('13:00', '14:15')).toEqual({ start_time: '13:00', end_time: '14:15' });
+    expect(parseTimeRange('0900', '1015')).toEqual({ start_time: '09:00', end_time: '10:15' });
+  });
+
+  it('rejects ranges too short or too long to be a class', () => {
+    expect(parseTimeRange('9:00', '9:05')).toBeNull();
+    expect(parseTimeRange('8:00 AM', '9:00 PM')).toBeNull();
+  });
+});
+
+describe('parseScheduleText', () => {
+  it('reads a registrar row', () => {
+    const { classes } = parseScheduleText('CS 101 001 Intro to Programming MWF 9:00 AM - 9:50 AM SCI 204 Smith');
+
+    expect(classes).toEqual([{
+      course_name: 'Intro to Programming',
+      course_code: 'CS 101',
+      section: '001',
+      instructor: 'Smith',
+      location: 'SCI 204',
+      days: ['M', 'W', 'F'],
+      start_time: '09:00',
+      end_time: '09:50',
+    }]);
+  });
+
+  it('gives a lab line the course and section of the row above', () => {
+    const { classes } = parseScheduleText([
+      'CS 101 001 Intro to Programming MWF 9:00 AM - 9:50 AM SCI 204 Smith',
+      'Lab R 2:00 PM - 3:50 PM SCI 110 Jones',
+    ].join('\n'));
+
+    expect(classes).toHaveLength(2);
+    expect(classes[1]).toMatchObject({
+      course_code: 'CS 101',
+      section: '001',
+      course_name: 'Intro to Programming',
+      days: ['R'],
+      start_time: '14:00',
+      end_time: '15:50',
+      location: 'SCI 110',
+      instructor: 'Jones',
+    });
+  });
+
+  it('reads bare afternoon times in a row', () => {
+    const { classes } = parseScheduleText('MATH 151 002 Calculus I TR 1:30-2:45 MATH 110 Lee');
+    expect(classes[0]).toMatchObject({ start_time: '13:30', end_time: '14:45' });
+  });
+
+  it('follows a 24-hour profile with its own day abbreviations', () => {
+    const { classes } = parseScheduleText('INF 101 Programmierung Mo Mi 1:00-2:30 HS 1 Weber', {
+      timeFormat: '24h',
+      dayAbbreviations: { Mo: 'M', Mi: 'W' },
+    });
+    expect(classes[0]).toMatchObject({ course_code: 'INF 101', days: ['M', 'W'], start_time: '01:00', end_time: '02:30' });
+  });
+
+  it('reports full coverage only when every time range became a class', () => {
+    const complete = 'CS 103 001 Intro to Systems TR 10:00-11:15 SCI 1 Lee';
+    // No days on this row, so its time range is left over
+    const incomplete = `CS 102 001 Seminar in Computing 9:00-9:50\n${complete}`;
+
+    expect(parseScheduleText(complete).coverage).toBe(1);
+    expect(parseScheduleText(incomplete).coverage).toBe(0.5);
+    expect(parseScheduleText('No schedule here').coverage).toBe(0);
+  });
+});
+
+describe('withRuleBasedFallback', () => {
+  const model = (): ExtractionProvider => ({ name: 'mock', extractClasses: vi.fn(async () => []) });
+
+  it('skips the model when the parser covers every row', async () => {
+    const provider = model();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const classes = await withRuleBasedFallback(provider).extractClasses('CS 103 001 Intro to Systems TR 10:00-11:15 SCI 1 Lee');
+
+    expect(classes).toHaveLength(1);
+    expect(provider.extractClasses).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  it('calls the model when rows are left unparsed', async () => {
+    const provider = model();
+
+    await withRuleBasedFallback(provider).extractClasses('CS 102 001 Seminar in Computing 9:00-9:50\nCS 103 001 Intro to Systems TR 10:00-11:15 SCI 1 Lee');
+
+    expect(provider.extractClasses).toHaveBeenCalledOnce();
+  });
+});
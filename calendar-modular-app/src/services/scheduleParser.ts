@@ -0,0 +1,424 @@
+import type { ExtractedClass } from './pdfProcessor';
+
+/**
+ * Deterministic parser for common registrar schedule layouts.
+ * Lets the upload flow work without a network call or API quota when the PDF
+ * follows the usual "CODE SECTION Title DAYS START - END Room Instructor" shape.
+ */
+
+export interface ScheduleParseResult {
+  classes: ExtractedClass[];
+  // Share of time ranges in the text that became a class (1 = nothing left unparsed)
+  coverage: number;
+}
+
+// A school's registrar conventions (see institutionProfiles)
+export interface ScheduleConventions {
+  // Extra day abbreviations, e.g. { H: 'R' }; matched case-sensitively before the built-in ones
+  dayAbbreviations?: Record<string, string>;
+  // '24h' reads bare times as a 24-hour clock instead of guessing that 1:00-6:59 is afternoon
+  timeFormat?: '12h' | '24h' | null;
+  // The days column comes after the time column
+  daysAfterTime?: boolean;
+}
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  meridiem: 'a' | 'p' | null;
+  military: boolean;
+}
+
+interface CourseRecord {
+  course_code?: string;
+  section?: string;
+  course_name: string;
+}
+
+const DAY_ORDER = ['M', 'T', 'W', 'R', 'F', 'S', 'U'];
+
+const DAY_WORDS: { [key: string]: string } = {
+  m: 'M', mo: 'M', mon: 'M', monday: 'M',
+  t: 'T', tu: 'T', tue: 'T', tues: 'T', tuesday: 'T',
+  w: 'W', we: 'W', wed: 'W', wednesday: 'W',
+  r: 'R', th: 'R', thu: 'R', thur: 'R', thurs: 'R', thursday: 'R',
+  f: 'F', fr: 'F', fri: 'F', friday: 'F',
+  s: 'S', sa: 'S', sat: 'S', saturday: 'S',
+  u: 'U', su: 'U', sun: 'U', sunday: 'U',
+};
+
+// Compact registrar forms like "MWF", "TTh", "TuTh", "MTWRF", "SaSu"
+const COMPACT_DAY_TOKENS = 'TH|Th|TU|Tu|SA|Sa|SU|Su|M|T|W|R|F|S|U';
+
+const CLOCK = String.raw`(?:\d{1,2}:\d{2}|\d{1,2}(?=\s*[ap]\.?m?\.?(?![a-z]))|(?:[01]\d|2[0-3])[0-5]\d)(?:\s*[ap]\.?m?\.?(?![a-z]))?`;
+const TIME_RANGE_SOURCE = String.raw`(?<![\d:])(${CLOCK})\s*(?:-|–|—|to)\s*(${CLOCK})(?![\d:])`;
+
+const COURSE_CODE_RE = /\b([A-Z]{2,5})\s?-?\s?(\d{3,4}[A-Z]?)\b/g;
+const NOT_DEPARTMENTS = new Set(['AM', 'PM', 'TBA', 'TBD', 'ROOM', 'RM', 'SEC', 'CRN', 'FALL', 'SPRING', 'SUMMER', 'WINTER', 'TERM']);
+const SECTION_RE = /^(?:Sec(?:tion)?\.?\s*([A-Z0-9]{1,4})|(\d{1,3}[A-Z]?|[A-Z]{1,2}\d{1,3}))\b/i;
+
+const ROOM_TOKEN_RE = /^(?:[A-Z]{0,4}-?\d{1,4}[A-Z]?|TBA|TBD|Online|ONLINE|Remote|Virtual)$/;
+const BUILDING_WORD_RE = /^(?:hall|bldg|building|center|centre|ctr|lab|laboratory|library|room|rm|annex|auditorium|tower|pavilion|complex|gym|house|wing)\.?$/i;
+
+const HONORIFIC_RE = /^(?:Dr|Prof|Mr|Mrs|Ms|Mx)\.?$/;
+
+const MIN_CLASS_MINUTES = 10;
+const MAX_CLASS_MINUTES = 6 * 60;
+
+/**
+ * Split a compact day string into day codes, trying the school's own abbreviations first
+ */
+function splitCompactDays(part: string, abbreviations: Record<string, string>): string[] | null {
+  const custom = Object.keys(abbreviations)
+    .sort((a, b) => b.length - a.length)
+    .map(token => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const source = [...custom, COMPACT_DAY_TOKENS].join('|');
+  if (!new RegExp(`^(?:${source})+$`).test(part)) return null;
+  return (part.match(new RegExp(source, 'g')) ?? []).map(token => abbreviations[token] ?? DAY_WORDS[token.toLowerCase()]);
+}
+
+function readDays(text: string, abbreviations: Record<string, string>, capitalizedOnly: boolean): string[] | null {
+  const trimmed = text.trim().replace(/\.$/, '');
+  if (!trimmed) return null;
+
+  const codes = new Set<string>();
+  const parts = trimmed.split(/[\s,/&]+/).filter(Boolean);
+
+  for (const part of parts) {
+    const custom = abbreviations[part.replace(/\.$/, '')];
+    const word = DAY_WORDS[part.toLowerCase().replace(/\.$/, '')];
+    if (custom) {
+      codes.add(custom);
+    } else if (word && (!capitalizedOnly || /^[A-Z]/.test(part))) {
+      codes.add(word);
+    } else {
+      const compact = splitCompactDays(part, abbreviations)
+        ?? (capitalizedOnly ? null : splitCompactDays(part.toUpperCase(), abbreviations));
+      if (!compact) return null;
+      compact.forEach(code => codes.add(code));
+    }
+  }
+
+  return DAY_ORDER.filter(day => codes.has(day));
+}
+
+/**
+ * Normalize a day string ("MWF", "TTh", "Tue/Thu", "Mon, Wed", "mwf") to M/T/W/R/F/S/U codes.
+ * Returns null when the text isn't a day string.
+ */
+export function parseDays(text: string, abbreviations: Record<string, string> = {}): string[] | null {
+  return readDays(text, abbreviations, false);
+}
+
+/**
+ * Day string inside a schedule row. Only capitalized codes count there, so
+ * lowercase title words like "must" or "we" aren't read as days.
+ */
+function parseRowDays(text: string, abbreviations: Record<string, string> = {}): string[] | null {
+  return readDays(text, abbreviations, true);
+}
+
+function parseClock(text: string): ParsedTime | null {
+  const match = text.trim().match(/^(?:(\d{1,2}):(\d{2})|(\d{1,2})|(\d{2})(\d{2}))\s*(?:([ap])\.?m?\.?)?$/i);
+  if (!match) return null;
+
+  const military = match[4] !== undefined;
+  const hour = parseInt(match[1] ?? match[3] ?? match[4], 10);
+  const minute = parseInt(match[2] ?? match[5] ?? '0', 10);
+  const meridiem = match[6] ? (match[6].toLowerCase() as 'a' | 'p') : null;
+
+  if (minute > 59 || hour > 23 || (meridiem && (hour === 0 || hour > 12))) return null;
+  return { hour, minute, meridiem, military };
+}
+
+function toMinutes(time: ParsedTime, meridiem: 'a' | 'p' | null): number {
+  let hour = time.hour;
+  if (meridiem === 'a' && hour === 12) hour = 0;
+  if (meridiem === 'p' && hour < 12) hour += 12;
+  return hour * 60 + time.minute;
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const mins = (minutes % 60).toString().padStart(2, '0');
+  return `${hours}:${mins}`;
+}
+
+/**
+ * Convert a time range like "9:00 AM - 10:15 AM", "1:30-2:45pm" or "0900-1015"
+ * to 24h "HH:MM" strings. A missing AM/PM is borrowed from the other end, and
+ * bare 1:00-6:59 times are read as afternoon, which is how registrars print them
+ * (unless the school is known to use a 24-hour clock).
+ */
+export function parseTimeRange(
+  startText: string,
+  endText: string,
+  timeFormat?: ScheduleConventions['timeFormat']
+): { start_time: string; end_time: string } | null {
+  const start = parseClock(startText);
+  const end = parseClock(endText);
+  if (!start || !end) return null;
+
+  let startMinutes: number;
+  let endMinutes: number;
+
+  if (timeFormat === '24h' || start.military || end.military || start.hour > 12 || end.hour > 12 || start.hour === 0) {
+    startMinutes = toMinutes(start, start.meridiem);
+    endMinutes = toMinutes(end, end.meridiem);
+  } else if (start.meridiem || end.meridiem) {
+    const endMeridiem = end.meridiem ?? start.meridiem;
+    endMinutes = toMinutes(end, endMeridiem);
+    startMinutes = toMinutes(start, start.meridiem ?? endMeridiem);
+    // "11:00-12:15pm" means 11 AM, not 11 PM
+    if (!start.meridiem && startMinutes > endMinutes) {
+      startMinutes = toMinutes(start, 'a');
+    }
+    // "11:00am-12:15" means 12:15 PM
+    if (!end.meridiem && endMinutes < startMinutes) {
+      endMinutes = toMinutes(end, 'p');
+    }
+  } else {
+    startMinutes = toMinutes(start, start.hour < 7 ? 'p' : null);
+    endMinutes = toMinutes(end, end.hour < 7 ? 'p' : null);
+    if (endMinutes < startMinutes) {
+      endMinutes = toMinutes(end, 'p');
+    }
+  }
+
+  const duration = endMinutes - startMinutes;
+  if (duration < MIN_CLASS_MINUTES || duration > MAX_CLASS_MINUTES) return null;
+
+  return { start_time: formatMinutes(startMinutes), end_time: formatMinutes(endMinutes) };
+}
+
+/**
+ * Normalize a single time ("9:00 AM", "13:30", "09:00:00", "0900") to "HH:MM".
+ * Without AM/PM the time is read as a 24h clock.
+ */
+export function parseTime(text: string): string | null {
+  const time = parseClock(text.trim().replace(/^(\d{1,2}:\d{2}):\d{2}/, '$1'));
+  if (!time) return null;
+  return formatMinutes(toMinutes(time, time.meridiem));
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string, offset: number = 0): Token[] {
+  return [...text.matchAll(/\S+/g)].map(match => ({
+    text: match[0],
+    start: offset + (match.index ?? 0),
+    end: offset + (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function isTitleWord(text: string): boolean {
+  return /^[A-Za-z][A-Za-z&:'-]+[,.]?$/.test(text) && !HONORIFIC_RE.test(text) && parseRowDays(text) === null;
+}
+
+/**
+ * Find the day string just before (or, failing that, just after) a time range.
+ * Schools that print days after the time are checked the other way round.
+ */
+function findDays(
+  line: string,
+  rangeStart: number,
+  rangeEnd: number,
+  floor: number,
+  conventions: ScheduleConventions
+): { days: string[]; start: number; end: number } | null {
+  const findBefore = () => {
+    const before = tokenize(line.slice(floor, rangeStart), floor);
+    for (let count = Math.min(4, before.length); count > 0; count--) {
+      const candidate = before.slice(before.length - count);
+      const days = parseRowDays(candidate.map(token => token.text).join(' '), conventions.dayAbbreviations);
+      if (days && days.length > 0) {
+        return { days, start: candidate[0].start, end: rangeStart };
+      }
+    }
+    return null;
+  };
+
+  const findAfter = () => {
+    const after = tokenize(line.slice(rangeEnd), rangeEnd).slice(0, 1);
+    if (after.length > 0) {
+      const days = parseRowDays(after[0].text, conventions.dayAbbreviations);
+      if (days && days.length > 0) {
+        return { days, start: rangeStart, end: after[0].end };
+      }
+    }
+    return null;
+  };
+
+  return conventions.daysAfterTime ? findAfter() ?? findBefore() : findBefore() ?? findAfter();
+}
+
+/**
+ * Split the text after a meeting into a location and an instructor
+ */
+function parseTail(text: string): { location?: string; instructor?: string } {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const roomIndex = tokens.findIndex(token => ROOM_TOKEN_RE.test(token.replace(/[,;]$/, '')));
+
+  let location: string | undefined;
+  let rest = tokens;
+
+  if (roomIndex !== -1) {
+    let locationStart = roomIndex;
+    let sawBuildingWord = false;
+    while (locationStart > 0) {
+      const previous = tokens[locationStart - 1];
+      if (BUILDING_WORD_RE.test(previous)) {
+        sawBuildingWord = true;
+      } else if (!/^[A-Z]{2,5}$/.test(previous) && !(sawBuildingWord && /^[A-Z][a-z]+$/.test(previous))) {
+        break;
+      }
+      locationStart--;
+    }
+    location = tokens.slice(locationStart, roomIndex + 1).join(' ').replace(/[,;]$/, '');
+    rest = [...tokens.slice(0, locationStart), ...tokens.slice(roomIndex + 1)];
+  }
+
+  // Whatever is left that reads like a name is the instructor (seat counts, credits, etc. are dropped)
+  const nameTokens = rest.filter(token => /^[A-Za-z][A-Za-z.,'-]*$/.test(token) && !/^(?:Open|Closed|Full|Waitlist|Lecture|Lab|LEC|LAB|DIS|SEM)$/i.test(token));
+  const instructor = nameTokens.join(' ').replace(/[,;]$/, '').trim() || undefined;
+
+  return { location, instructor };
+}
+
+/**
+ * Read course code, section and title from the text in front of the first meeting
+ */
+function parseCourseHead(head: string, code?: string): CourseRecord {
+  let rest = head.trim();
+  let section: string | undefined;
+
+  const sectionMatch = rest.match(SECTION_RE);
+  if (sectionMatch) {
+    section = sectionMatch[1] ?? sectionMatch[2];
+    rest = rest.slice(sectionMatch[0].length).trim();
+  }
+
+  // Titles never contain bare numbers; those are CRNs, credits or seat counts
+  const title = rest
+    .split(/\s+/)
+    .filter(token => token && !/^[\d.,/()-]+$/.test(token))
+    .join(' ')
+    .replace(/^[-:–]\s*/, '')
+    .trim();
+
+  return {
+    course_code: code,
+    section,
+    course_name: title || code || 'Untitled Class',
+  };
+}
+
+/**
+ * Course codes that start a new row. Room codes like "SCI 204" look the same,
+ * so a code only counts when it's followed by a section or a multi-word title.
+ */
+function findCourseStarts(line: string, firstRangeStart: number): Array<{ code: string; start: number; end: number }> {
+  const starts: Array<{ code: string; start: number; end: number }> = [];
+
+  for (const match of line.matchAll(COURSE_CODE_RE)) {
+    if (NOT_DEPARTMENTS.has(match[1])) continue;
+
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const following = tokenize(line.slice(end, end + 80)).map(token => token.text);
+    const hasSection = SECTION_RE.test(line.slice(end).trim());
+    const titleWords = following.slice(0, 3).filter(isTitleWord).length;
+
+    if ((starts.length === 0 && start < firstRangeStart) || hasSection || titleWords >= 2) {
+      starts.push({ code: `${match[1]} ${match[2]}`, start, end });
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Parse schedule text into classes. Rows without a course code (e.g. a lab line
+ * under its lecture) inherit the course from the row above.
+ */
+export function parseScheduleText(text: string, conventions: ScheduleConventions = {}): ScheduleParseResult {
+  const classes: ExtractedClass[] = [];
+  let rangesFound = 0;
+  let rangesParsed = 0;
+  let currentCourse: CourseRecord | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const ranges = [...line.matchAll(new RegExp(TIME_RANGE_SOURCE, 'gi'))];
+
+    if (ranges.length === 0) {
+      // A heading line like "CS 101 Introduction to Programming" sets the course for the rows below it
+      const starts = findCourseStarts(line, line.length);
+      if (starts.length > 0) {
+        currentCourse = parseCourseHead(line.slice(starts[0].end), starts[0].code);
+      }
+      continue;
+    }
+
+    const courseStarts = findCourseStarts(line, ranges[0].index ?? 0);
+    let floor = 0;
+
+    // First pass: locate each meeting's days so the text between meetings can be split
+    const meetings = ranges.map(range => {
+      const start = range.index ?? 0;
+      const end = start + range[0].length;
+      const days = findDays(line, start, end, floor, conventions);
+      floor = end;
+      return { range, start, end, days };
+    });
+
+    meetings.forEach((meeting, index) => {
+      rangesFound++;
+
+      const previousEnd = index > 0 ? meetings[index - 1].end : 0;
+      const courseStart = [...courseStarts].reverse().find(course => course.start >= previousEnd && course.start < meeting.start);
+      const prefixStart = meeting.days && meeting.days.start < meeting.start ? meeting.days.start : meeting.start;
+
+      if (courseStart) {
+        currentCourse = parseCourseHead(line.slice(courseStart.end, prefixStart), courseStart.code);
+      } else if (index === 0 && !currentCourse) {
+        currentCourse = parseCourseHead(line.slice(0, prefixStart));
+      }
+
+      const times = parseTimeRange(meeting.range[1], meeting.range[2], conventions.timeFormat);
+      if (!meeting.days || !times || !currentCourse) return;
+
+      // The row after this one starts at the course code the next meeting will pick up
+      const next = meetings[index + 1];
+      const nextCourse = next
+        ? [...courseStarts].reverse().find(course => course.start >= meeting.end && course.start < next.start)
+        : courseStarts.find(course => course.start >= meeting.end);
+      const tailStart = Math.max(meeting.end, meeting.days.end);
+      const tailEnd = Math.min(
+        next ? (next.days && next.days.start < next.start ? next.days.start : next.start) : line.length,
+        nextCourse ? nextCourse.start : line.length
+      );
+      const { location, instructor } = parseTail(line.slice(tailStart, Math.max(tailStart, tailEnd)));
+
+      classes.push({
+        course_name: currentCourse.course_name,
+        course_code: currentCourse.course_code,
+        section: currentCourse.section,
+        instructor,
+        location,
+        days: meeting.days.days,
+        start_time: times.start_time,
+        end_time: times.end_time,
+      });
+      rangesParsed++;
+    });
+  }
+
+  return {
+    classes,
+    coverage: rangesFound === 0 ? 0 : rangesParsed / rangesFound,
+  };
+}
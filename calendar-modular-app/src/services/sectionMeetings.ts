@@ -0,0 +1,107 @@
+import type { ClassMeeting, ExtractedClass } from './pdfProcessor';
+
+/**
+ * Sections that meet more than once a week at different times.
+ * A class row holds its primary meeting in days/start_time/end_time/location and any
+ * other meetings (a Friday lab, a discussion) in extra_meetings, so the section is
+ * saved, hidden and deleted as one unit.
+ */
+
+// Anything with a primary meeting: extracted classes and class_catalog rows
+interface MeetingSource {
+  days: string[];
+  start_time: string;
+  end_time: string;
+  location?: string | null;
+  meeting_type?: ClassMeeting['meeting_type'] | null;
+  extra_meetings?: ClassMeeting[] | null;
+}
+
+/**
+ * Every meeting of a section, primary first
+ */
+export function classMeetings(cls: MeetingSource): ClassMeeting[] {
+  const primary: ClassMeeting = {
+    days: cls.days,
+    start_time: cls.start_time,
+    end_time: cls.end_time,
+    location: cls.location ?? undefined,
+    meeting_type: cls.meeting_type ?? undefined,
+  };
+  return [primary, ...(cls.extra_meetings ?? [])];
+}
+
+function meetingKey(meeting: ClassMeeting): string {
+  return `${meeting.days.join('')}|${meeting.start_time.slice(0, 5)}|${meeting.end_time.slice(0, 5)}`;
+}
+
+/**
+ * Rows only belong together when they name the same section; a missing section or
+ * conflicting CRNs keep them apart
+ */
+function groupKey(cls: ExtractedClass): string | null {
+  if (!cls.section) return null;
+  return `${cls.course_code || cls.course_name}|${cls.section}`.toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Fold a section's rows into one class. The lecture (or the first row) becomes the
+ * primary meeting, and section-wide details missing from it are taken from the others.
+ */
+function mergeSection(rows: ExtractedClass[]): ExtractedClass {
+  const primary = rows.find(row => row.meeting_type === 'lecture') ?? rows[0];
+  const others = rows.filter(row => row !== primary);
+  const firstOf = <K extends keyof ExtractedClass>(field: K): ExtractedClass[K] | undefined =>
+    primary[field] ?? others.find(row => row[field] !== undefined)?.[field];
+
+  const [primaryMeeting, ...primaryExtras] = classMeetings(primary);
+  const seen = new Set([meetingKey(primaryMeeting)]);
+  const extraMeetings: ClassMeeting[] = [];
+  for (const meeting of [...primaryExtras, ...others.flatMap(row => classMeetings(row))]) {
+    if (seen.has(meetingKey(meeting))) continue;
+    seen.add(meetingKey(meeting));
+    extraMeetings.push(meeting);
+  }
+
+  const confidences = rows.flatMap(row => (row.confidence === undefined ? [] : [row.confidence]));
+
+  return {
+    ...primary,
+    crn: firstOf('crn'),
+    credits: firstOf('credits'),
+    instructor: firstOf('instructor'),
+    term_start: firstOf('term_start'),
+    term_end: firstOf('term_end'),
+    final_exam_date: firstOf('final_exam_date'),
+    final_exam_start: firstOf('final_exam_start'),
+    final_exam_end: firstOf('final_exam_end'),
+    extra_meetings: extraMeetings.length > 0 ? extraMeetings : undefined,
+    // A section is only as trustworthy as its weakest meeting
+    confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+  };
+}
+
+/**
+ * Group per-meeting rows (as extractors return them) into one class per section.
+ * Rows keep their original order, placed where the section first appears.
+ */
+export function groupSectionMeetings(classes: ExtractedClass[]): ExtractedClass[] {
+  const groups: ExtractedClass[][] = [];
+  const groupByKey = new Map<string, ExtractedClass[]>();
+
+  for (const cls of classes) {
+    const key = groupKey(cls);
+    const group = key ? groupByKey.get(key) : undefined;
+    // Two CRNs under one section label means the registrar lists them as separate sections
+    if (group && !(cls.crn && group.some(row => row.crn && row.crn !== cls.crn))) {
+      group.push(cls);
+      continue;
+    }
+
+    const newGroup = [cls];
+    groups.push(newGroup);
+    if (key && !group) groupByKey.set(key, newGroup);
+  }
+
+  return groups.map(rows => (rows.length === 1 ? rows[0] : mergeSection(rows)));
+}
@@ -0,0 +1,245 @@
+import { parseTimeRange } from './scheduleParser';
+
+/**
+ * Class import from spreadsheets and pasted registrar pages.
+ * Files and pasted text are turned into a grid of cells, the user maps columns to
+ * class fields, and the mapped rows go through the same validation as PDF extraction.
+ */
+
+export type ImportField =
+  | 'course_code' | 'course_name' | 'section' | 'crn' | 'credits' | 'meeting_type'
+  | 'days' | 'start_time' | 'end_time' | 'time_range' | 'meeting'
+  | 'location' | 'instructor' | 'term_start' | 'term_end' | 'final_exam_date';
+
+// Column index -> field; unmapped columns are left out
+export type ColumnMapping = Record<number, ImportField>;
+
+export interface ImportTable {
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string }> = [
+  { field: 'course_code', label: 'Course code' },
+  { field: 'course_name', label: 'Course name' },
+  { field: 'section', label: 'Section' },
+  { field: 'crn', label: 'CRN' },
+  { field: 'credits', label: 'Credits' },
+  { field: 'meeting_type', label: 'Meeting type' },
+  { field: 'days', label: 'Days' },
+  { field: 'start_time', label: 'Start time' },
+  { field: 'end_time', label: 'End time' },
+  { field: 'time_range', label: 'Time range (9:00-10:15)' },
+  { field: 'meeting', label: 'Days and time (MW 9:00-10:15)' },
+  { field: 'location', label: 'Location' },
+  { field: 'instructor', label: 'Instructor' },
+  { field: 'term_start', label: 'Term start' },
+  { field: 'term_end', label: 'Term end' },
+  { field: 'final_exam_date', label: 'Final exam date' },
+];
+
+// Header names registrars use for each field, matched after lowercasing and dropping punctuation
+const HEADER_SYNONYMS: Array<[ImportField, RegExp]> = [
+  ['crn', /^(crn|course reference number|registration number|class nbr|class number)$/],
+  ['course_code', /^(course|course code|course id|subject course|course number|catalog|catalog number|code)$/],
+  ['course_name', /^(title|course title|course name|name|description|class|class title)$/],
+  ['section', /^(sec|section|section number|sect)$/],
+  ['credits', /^(cr|crs|credits|credit hours|credit|units|hours|hrs)$/],
+  ['meeting_type', /^(type|meeting type|component|schedule type|activity|comp)$/],
+  ['days', /^(days|day|meeting days|day s)$/],
+  ['start_time', /^(start|start time|begin|begin time|from)$/],
+  ['end_time', /^(end|end time|finish|to)$/],
+  ['time_range', /^(time|times|hours of meeting|class time|meeting time)$/],
+  ['meeting', /^(days times|days and times|day time|schedule|meets|meeting|meeting pattern|meeting info)$/],
+  ['location', /^(room|location|where|bldg room|building room|place|classroom)$/],
+  ['instructor', /^(instructor|instructors|professor|faculty|teacher|taught by|staff)$/],
+  ['term_start', /^(start date|begin date|term start|first day|session start)$/],
+  ['term_end', /^(end date|term end|last day|session end)$/],
+  ['final_exam_date', /^(final|final exam|exam date|final exam date)$/],
+];
+
+// Optional days, then a time range: "MW 9:00 AM - 10:15 AM", "1:30-2:45pm", "1300-1415"
+const MEETING_RE = /^(.*?)\s*(\d{4}|\d{1,2}(?::\d{2})?\s*(?:[ap]\.?m?\.?)?)\s*(?:-|–|—|to)\s*(\d{4}|\d{1,2}(?::\d{2})?\s*(?:[ap]\.?m?\.?)?)$/i;
+
+/**
+ * Parse CSV or TSV text (RFC 4180 quoting). The delimiter is guessed from the first line.
+ */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const separator = delimiter ?? (['\t', ';', ','].find(candidate => firstLine.includes(candidate)) ?? ',');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+}
+
+/**
+ * Split text copied from a registrar web page into cells. Copied HTML tables come
+ * through tab-separated; otherwise columns are assumed to be two or more spaces apart.
+ * Returns null when the text has no column structure at all.
+ */
+export function parsePastedTable(text: string): string[][] | null {
+  if (text.includes('\t')) return parseDelimited(text, '\t');
+
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => line.trim().split(/\s{2,}/));
+  const multiColumn = rows.filter(cells => cells.length > 2).length;
+  return multiColumn >= rows.length / 2 ? rows : null;
+}
+
+/**
+ * Spreadsheet cell as text. Excel stores times as dates on 1899-12-30, so those become HH:MM.
+ */
+function cellToText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return value.getUTCFullYear() < 1901 ? iso.slice(11, 16) : iso.slice(0, 10);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Read a .csv, .tsv, .txt or .xlsx file into rows of cells
+ */
+export async function readTableFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    // Only loaded when someone actually imports a spreadsheet
+    const { readSheet } = await import('read-excel-file/browser');
+    const data = await readSheet(file);
+    return data
+      .map(row => row.map(cellToText))
+      .filter(cells => cells.some(value => value !== ''));
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls files are not supported. Save the sheet as .xlsx or CSV and try again.');
+  }
+  return parseDelimited(await file.text());
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Guess the mapping from header names. Each field is used at most once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+
+  headers.forEach((header, index) => {
+    const name = normalizeHeader(header);
+    const match = HEADER_SYNONYMS.find(([field, pattern]) => !used.has(field) && pattern.test(name));
+    if (match) {
+      mapping[index] = match[0];
+      used.add(match[0]);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Whether the first row reads like column titles rather than a class
+ */
+export function looksLikeHeader(row: string[]): boolean {
+  const mapped = Object.keys(guessColumnMapping(row)).length;
+  return mapped >= 2 && !row.some(cell => /\d{1,2}:\d{2}/.test(cell));
+}
+
+const isRangeField = (field: ImportField) => field === 'time_range' || field === 'meeting';
+
+/**
+ * Build an unvalidated class object from one row using the mapping.
+ * Combined columns ("9:00-10:15", "MW 9:00-10:15") are split here; everything else
+ * is left to validateExtractedClasses.
+ */
+function mapRow(cells: string[], mapping: ColumnMapping): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+
+  for (const [index, field] of Object.entries(mapping)) {
+    const value = cells[Number(index)]?.trim();
+    if (!value) continue;
+
+    if (isRangeField(field)) {
+      const match = value.match(MEETING_RE);
+      const times = match ? parseTimeRange(match[2], match[3]) : null;
+      if (times) {
+        raw.start_time = times.start_time;
+        raw.end_time = times.end_time;
+        if (field === 'meeting' && match?.[1]) raw.days = match[1];
+      } else {
+        // Leave the text in place so validation reports it against the row
+        raw.start_time = value;
+      }
+    } else {
+      raw[field] = value;
+    }
+  }
+
+  // Separate start and end columns read as a pair, so bare "1:30" and "2:45" are afternoon like in a range
+  if (typeof raw.start_time === 'string' && typeof raw.end_time === 'string' && !Object.values(mapping).some(isRangeField)) {
+    const times = parseTimeRange(raw.start_time, raw.end_time);
+    if (times) Object.assign(raw, times);
+  }
+
+  return raw;
+}
+
+/**
+ * Apply a column mapping to the table's data rows
+ */
+export function mapTableRows(table: ImportTable, mapping: ColumnMapping): Record<string, unknown>[] {
+  const dataRows = table.hasHeader ? table.rows.slice(1) : table.rows;
+  return dataRows.map(cells => mapRow(cells, mapping));
+}
+
+/**
+ * Fields a mapping still needs before rows can become classes
+ */
+export function missingRequiredFields(mapping: ColumnMapping): string[] {
+  const fields = new Set(Object.values(mapping));
+  const missing: string[] = [];
+  if (!fields.has('course_name') && !fields.has('course_code')) missing.push('course name or code');
+  if (!fields.has('days') && !fields.has('meeting')) missing.push('days');
+  const hasTimes = fields.has('time_range') || fields.has('meeting') || (fields.has('start_time') && fields.has('end_time'));
+  if (!hasTimes) missing.push('start and end time');
+  return missing;
+}
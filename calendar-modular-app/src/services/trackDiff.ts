@@ -0,0 +1,158 @@
+import type { ClassMeeting, ExtractedClass, MeetingType } from './pdfProcessor';
+import { parseTime } from './scheduleParser';
+
+/**
+ * Diff a re-imported schedule against the classes already in a track.
+ * Sections are matched on course code + section so a revised PDF updates rows
+ * in place, and each row keeps its is_hidden choice.
+ */
+
+// A class_catalog row as loaded from the database
+export interface CatalogClass {
+  id: string;
+  course_name: string;
+  course_code: string | null;
+  section: string | null;
+  crn: string | null;
+  credits: number | null;
+  meeting_type: MeetingType | null;
+  instructor: string | null;
+  location: string | null;
+  days: string[];
+  start_time: string;
+  end_time: string;
+  extra_meetings: ClassMeeting[] | null;
+  term_start: string | null;
+  term_end: string | null;
+  final_exam_date: string | null;
+  final_exam_start: string | null;
+  final_exam_end: string | null;
+  is_hidden: boolean;
+}
+
+export type DiffField =
+  | 'course_name' | 'crn' | 'credits' | 'meeting_type' | 'days' | 'start_time' | 'end_time' | 'location' | 'instructor'
+  | 'extra_meetings' | 'term_start' | 'term_end' | 'final_exam_date' | 'final_exam_start' | 'final_exam_end';
+
+export interface FieldChange {
+  field: DiffField;
+  before: string;
+  after: string;
+}
+
+export type TrackDiffEntry<T extends ExtractedClass = ExtractedClass> =
+  | { kind: 'added'; incoming: T }
+  | { kind: 'removed'; existing: CatalogClass }
+  | { kind: 'changed'; existing: CatalogClass; incoming: T; changes: FieldChange[] }
+  | { kind: 'unchanged'; existing: CatalogClass; incoming: T };
+
+export const DIFF_FIELDS: DiffField[] = [
+  'course_name', 'crn', 'credits', 'meeting_type', 'days', 'start_time', 'end_time', 'location', 'instructor',
+  'extra_meetings', 'term_start', 'term_end', 'final_exam_date', 'final_exam_start', 'final_exam_end',
+];
+
+const TIME_FIELDS: DiffField[] = ['start_time', 'end_time', 'final_exam_start', 'final_exam_end'];
+
+function formatTime(value: string): string {
+  return parseTime(value) ?? value;
+}
+
+/**
+ * Extra meetings as readable text, e.g. "F 14:00-16:00 SCI 110 (lab); R 18:00-19:00"
+ */
+export function formatMeetings(meetings: ClassMeeting[] | null | undefined): string {
+  return (meetings ?? [])
+    .map(meeting => [
+      `${meeting.days.join('')} ${formatTime(meeting.start_time)}-${formatTime(meeting.end_time)}`,
+      meeting.location,
+      meeting.meeting_type && `(${meeting.meeting_type})`,
+    ].filter(Boolean).join(' '))
+    .join('; ');
+}
+
+/**
+ * Comparable form of a field: days joined, times as HH:MM (the database returns HH:MM:SS)
+ */
+function fieldValue(cls: ExtractedClass | CatalogClass, field: DiffField): string {
+  if (field === 'extra_meetings') return formatMeetings(cls.extra_meetings);
+  const value = cls[field];
+  if (Array.isArray(value)) return value.join('');
+  if (value === null || value === undefined || value === '') return '';
+  // NUMERIC columns can come back as "3.0"
+  if (field === 'credits') return String(Number(value));
+  if (TIME_FIELDS.includes(field)) return formatTime(String(value));
+  return String(value).trim();
+}
+
+function compareFields(existing: CatalogClass, incoming: ExtractedClass): FieldChange[] {
+  return DIFF_FIELDS.flatMap(field => {
+    const before = fieldValue(existing, field);
+    const after = fieldValue(incoming, field);
+    return before === after ? [] : [{ field, before, after }];
+  });
+}
+
+/**
+ * Match key for a section. Classes without a course code fall back to their name.
+ */
+export function sectionKey(cls: { course_name: string; course_code?: string | null; section?: string | null }): string {
+  return `${cls.course_code || cls.course_name}|${cls.section ?? ''}`.toUpperCase().replace(/\s+/g, '');
+}
+
+/**
+ * Compare incoming classes with a track's current classes.
+ * Identical rows are paired first so a track that still stores a section's meetings as
+ * separate rows matches each one to itself; whatever is left with the same key counts as a change.
+ */
+export function diffTrack<T extends ExtractedClass>(existing: CatalogClass[], incoming: T[]): TrackDiffEntry<T>[] {
+  const unmatched = new Map<string, CatalogClass[]>();
+  for (const cls of existing) {
+    const key = sectionKey(cls);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), cls]);
+  }
+
+  const entries: TrackDiffEntry<T>[] = [];
+  const pending: T[] = [];
+
+  for (const cls of incoming) {
+    const candidates = unmatched.get(sectionKey(cls)) ?? [];
+    const index = candidates.findIndex(candidate => compareFields(candidate, cls).length === 0);
+    if (index >= 0) {
+      entries.push({ kind: 'unchanged', existing: candidates.splice(index, 1)[0], incoming: cls });
+    } else {
+      pending.push(cls);
+    }
+  }
+
+  for (const cls of pending) {
+    const match = unmatched.get(sectionKey(cls))?.shift();
+    if (match) {
+      entries.push({ kind: 'changed', existing: match, incoming: cls, changes: compareFields(match, cls) });
+    } else {
+      entries.push({ kind: 'added', incoming: cls });
+    }
+  }
+
+  for (const remaining of unmatched.values()) {
+    for (const cls of remaining) {
+      entries.push({ kind: 'removed', existing: cls });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Stable id for an entry: the catalog row it touches, or the incoming row it adds
+ */
+export function diffEntryId(entry: TrackDiffEntry<ExtractedClass & { id: string }>): string {
+  return entry.kind === 'added' ? entry.incoming.id : entry.existing.id;
+}
+
+/**
+ * Whether a change is applied unless the user unticks it. Removals have to be ticked instead:
+ * a class missing from the revised PDF may just be on another page or in another file.
+ */
+export function acceptedByDefault(entry: TrackDiffEntry): boolean {
+  return entry.kind !== 'removed';
+}
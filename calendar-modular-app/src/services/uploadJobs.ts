@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProcessPDFResult } from './pdfProcessor';
+import type { ExtractionProgress } from './extractionProgress';
+
+/**
+ * Job states for pdf_uploads. Every step is written to the row, so a job started in
+ * the browser or on the extraction server can be picked up again after a reload.
+ * Shared by the browser and the server.
+ */
+
+export type UploadStatus = 'pending' | 'processing' | 'review' | 'completed' | 'failed';
+
+export interface UploadJob {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_path: string;
+  file_size: number | null;
+  file_hash?: string | null;
+  // Institution profile the PDF is extracted with
+  profile_id?: string | null;
+  processing_status: UploadStatus;
+  // Where a processing job has got to, written by the extraction server
+  processing_step?: ExtractionProgress | null;
+  cancel_requested_at?: string | null;
+  error_message: string | null;
+  classes_extracted: number | null;
+  track_id?: string | null;
+  attempts: number | null;
+  created_at: string;
+  started_at: string | null;
+  extracted_at: string | null;
+  completed_at: string | null;
+  failed_at: string | null;
+}
+
+// A job still "processing" after this long was interrupted (closed tab, server restart)
+export const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * Row changes when extraction starts (or starts over)
+ */
+export function jobStarted(attempts: number | null): Record<string, unknown> {
+  return {
+    processing_status: 'processing',
+    attempts: (attempts ?? 0) + 1,
+    started_at: new Date().toISOString(),
+    extracted_at: null,
+    failed_at: null,
+    error_message: null,
+    processing_step: null,
+    cancel_requested_at: null
+  };
+}
+
+/**
+ * Row changes when the extracted classes are staged for review
+ */
+export function jobStaged(result: ProcessPDFResult): Record<string, unknown> {
+  return {
+    processing_status: 'review',
+    extraction_result: result,
+    classes_extracted: result.classes.length,
+    extracted_at: new Date().toISOString(),
+    error_message: null,
+    processing_step: null
+  };
+}
+
+/**
+ * Row changes when the classes are saved into a track
+ */
+export function jobCompleted(classCount: number, trackId: string): Record<string, unknown> {
+  return {
+    processing_status: 'completed',
+    classes_extracted: classCount,
+    track_id: trackId,
+    extraction_result: null,
+    completed_at: new Date().toISOString(),
+    error_message: null,
+    processing_step: null
+  };
+}
+
+/**
+ * Row changes when extraction fails
+ */
+export function jobFailed(message: string): Record<string, unknown> {
+  return {
+    processing_status: 'failed',
+    error_message: message,
+    failed_at: new Date().toISOString(),
+    processing_step: null
+  };
+}
+
+/**
+ * Whether a processing job has gone quiet for too long to still be running
+ */
+export function isStalled(job: Pick<UploadJob, 'processing_status' | 'started_at' | 'created_at'>, now: number = Date.now()): boolean {
+  if (job.processing_status !== 'processing') return false;
+  return now - new Date(job.started_at ?? job.created_at).getTime() > STALLED_AFTER_MS;
+}
+
+/**
+ * Whether extraction can be started again: failed, interrupted or never started
+ */
+export function canRetry(job: Pick<UploadJob, 'processing_status' | 'started_at' | 'created_at'>, now: number = Date.now()): boolean {
+  return job.processing_status === 'failed' || job.processing_status === 'pending' || isStalled(job, now);
+}
+
+/**
+ * Apply job changes to one upload row
+ */
+export async function updateUploadJob(
+  supabase: SupabaseClient,
+  uploadId: string,
+  changes: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('pdf_uploads')
+    .update(changes)
+    .eq('id', uploadId);
+
+  if (error) {
+    console.error('Error updating upload job:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ask the extraction server to stop a running job. It notices between steps
+ * and records the job as failed with "Cancelled".
+ */
+export async function requestJobCancel(supabase: SupabaseClient, uploadId: string): Promise<void> {
+  const { error } = await supabase
+    .from('pdf_uploads')
+    .update({ cancel_requested_at: new Date().toISOString() })
+    .eq('id', uploadId)
+    .eq('processing_status', 'processing');
+
+  if (error) {
+    console.error('Error cancelling upload job:', error);
+    throw error;
+  }
+}
+
+export interface DeleteUploadOptions {
+  // Also delete the schedule the upload's classes were saved into
+  deleteTrack?: boolean;
+}
+
+/**
+ * Delete an upload: the PDF in storage, the pdf_uploads row and optionally its track.
+ * The file goes first so a failure never leaves a stored PDF with nothing pointing at it.
+ */
+export async function deleteUpload(
+  supabase: SupabaseClient,
+  upload: Pick<UploadJob, 'id' | 'file_path' | 'track_id'>,
+  options: DeleteUploadOptions = {}
+): Promise<void> {
+  const { error: storageError } = await supabase.storage
+    .from('pdf-uploads')
+    .remove([upload.file_path]);
+
+  if (storageError) {
+    console.error('Error deleting uploaded PDF:', storageError);
+    throw storageError;
+  }
+
+  const { error: uploadError } = await supabase
+    .from('pdf_uploads')
+    .delete()
+    .eq('id', upload.id);
+
+  if (uploadError) {
+    console.error('Error deleting upload:', uploadError);
+    throw uploadError;
+  }
+
+  if (options.deleteTrack && upload.track_id) {
+    // Classes in the track go with it (ON DELETE CASCADE)
+    const { error: trackError } = await supabase
+      .from('schedule_tracks')
+      .delete()
+      .eq('id', upload.track_id);
+
+    if (trackError) {
+      console.error('Error deleting schedule:', trackError);
+      throw trackError;
+    }
+  }
+}